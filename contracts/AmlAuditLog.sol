@@ -0,0 +1,119 @@
+pragma solidity ^0.8.24;
+
+import { IAmlAuditLog } from "./interfaces/IAmlAuditLog.sol";
+import { IAmlRoleRegistry } from "./interfaces/IAmlRoleRegistry.sol";
+
+/// @notice Append-only, hash-chained trail of compliance actions taken in the AML contracts.
+/// @dev `action` is the selector of the function called on `source` and `targetId` the subject the
+/// writer passes for it: a transaction, rule, case or watchlist entry id, a left-padded account address
+/// or a configuration version. Role changes pack the first 12 bytes of the role above the account, and
+/// `setWriter` entries, which the log appends itself, set the byte above the writer to 1 when allowing it.
+/// Batch calls append one entry per id. Each entry commits to the previous
+/// one via `entryHash = keccak256(abi.encode(prevHash, source, actor, action, targetId, timestamp))`,
+/// starting from a zero hash, so rewriting any entry breaks every hash after it.
+contract AmlAuditLog is IAmlAuditLog {
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    struct AuditEntry {
+        address source;
+        bytes4 action;
+        address actor;
+        uint64 timestamp;
+        bytes32 targetId;
+        bytes32 entryHash;
+    }
+
+    address public immutable amlScan;
+
+    AuditEntry[] private entries;
+    mapping(address => bool) public isWriter;
+
+    event AuditEntryAppended(
+        uint256 indexed index,
+        address indexed source,
+        address indexed actor,
+        bytes4 action,
+        bytes32 targetId,
+        bytes32 entryHash
+    );
+    event WriterUpdated(address indexed writer, bool allowed);
+
+    error MissingRole(bytes32 role, address account);
+    error InvalidScanContract();
+    error UnauthorizedWriter(address writer);
+
+    constructor(address amlScanAddress) {
+        if (amlScanAddress == address(0)) revert InvalidScanContract();
+        amlScan = amlScanAddress;
+    }
+
+    /// @notice Allows or disallows a contract to append entries; the scan contract is always allowed.
+    function setWriter(address writer, bool allowed) external {
+        if (!IAmlRoleRegistry(amlScan).hasRole(ADMIN_ROLE, msg.sender)) revert MissingRole(ADMIN_ROLE, msg.sender);
+        isWriter[writer] = allowed;
+        _append(address(this), msg.sender, msg.sig, bytes32(uint256(uint160(writer)) | (allowed ? 1 << 160 : 0)));
+        emit WriterUpdated(writer, allowed);
+    }
+
+    /// @notice Appends an entry on behalf of `actor`; the calling contract is recorded as its source.
+    function append(address actor, bytes4 action, bytes32 targetId) external returns (bytes32 entryHash) {
+        if (msg.sender != amlScan && !isWriter[msg.sender]) revert UnauthorizedWriter(msg.sender);
+        return _append(msg.sender, actor, action, targetId);
+    }
+
+    function _append(
+        address source,
+        address actor,
+        bytes4 action,
+        bytes32 targetId
+    ) private returns (bytes32 entryHash) {
+        uint256 index = entries.length;
+        entryHash = keccak256(abi.encode(headHash(), source, actor, action, targetId, uint64(block.timestamp)));
+        entries.push(
+            AuditEntry({
+                source: source,
+                action: action,
+                actor: actor,
+                timestamp: uint64(block.timestamp),
+                targetId: targetId,
+                entryHash: entryHash
+            })
+        );
+        emit AuditEntryAppended(index, source, actor, action, targetId, entryHash);
+    }
+
+    /// @notice Hash of the latest entry, or zero while the log is empty.
+    function headHash() public view returns (bytes32) {
+        uint256 length = entries.length;
+        return length == 0 ? bytes32(0) : entries[length - 1].entryHash;
+    }
+
+    function getEntryCount() external view returns (uint256) {
+        return entries.length;
+    }
+
+    /// @notice Returns up to `limit` entries starting at `offset`, oldest first.
+    function getEntries(uint256 offset, uint256 limit)
+        external
+        view
+        returns (AuditEntry[] memory page, uint256 total)
+    {
+        total = entries.length;
+        uint256 count = _pageLength(total, offset, limit);
+        page = new AuditEntry[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = entries[offset + i];
+        }
+    }
+
+    function _pageLength(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= total) {
+            return 0;
+        }
+        uint256 remaining = total - offset;
+        uint256 count = limit < remaining ? limit : remaining;
+        return count < MAX_PAGE_SIZE ? count : MAX_PAGE_SIZE;
+    }
+}
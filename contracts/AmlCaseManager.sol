@@ -0,0 +1,267 @@
+pragma solidity ^0.8.24;
+
+import { IAmlAuditLog } from "./interfaces/IAmlAuditLog.sol";
+import { IAmlCaseManager } from "./interfaces/IAmlCaseManager.sol";
+import { IAmlRoleRegistry } from "./interfaces/IAmlRoleRegistry.sol";
+import { IAmlScan } from "./interfaces/IAmlScan.sol";
+
+/// @notice Review lifecycle for transactions flagged by `AmlScanFHE`.
+/// @dev Roles are read from the scan contract so both contracts share one role registry.
+contract AmlCaseManager is IAmlCaseManager {
+    bytes32 public constant COMPLIANCE_OFFICER_ROLE = keccak256("COMPLIANCE_OFFICER_ROLE");
+
+    enum CaseStatus {
+        None,
+        Open,
+        UnderReview,
+        Escalated,
+        ClosedFalsePositive,
+        Reported
+    }
+
+    struct Case {
+        bytes32 transactionId;
+        CaseStatus status;
+        address assignee;
+        uint256 openedAt;
+        uint256 updatedAt;
+    }
+
+    struct CaseTransition {
+        CaseStatus fromStatus;
+        CaseStatus toStatus;
+        address actor;
+        uint256 timestamp;
+        bytes32 noteHash;
+    }
+
+    address public immutable amlScan;
+
+    mapping(uint256 => Case) private cases;
+    mapping(bytes32 => uint256) private caseIdsByTransaction;
+    mapping(uint256 => CaseTransition[]) private caseHistory;
+    mapping(uint256 => bytes32[]) private caseNotes;
+    mapping(uint256 => bool) public isDisclosed;
+    uint256 public caseCount;
+
+    event CaseOpened(uint256 indexed caseId, bytes32 indexed transactionId);
+    event CaseAssigned(uint256 indexed caseId, address indexed assignee, address indexed actor);
+    event CaseStatusChanged(
+        uint256 indexed caseId,
+        CaseStatus fromStatus,
+        CaseStatus toStatus,
+        address indexed actor,
+        bytes32 noteHash
+    );
+    event CaseNoteAdded(uint256 indexed caseId, bytes32 noteHash, address indexed actor);
+    event CaseDisclosed(uint256 indexed caseId, bytes32 indexed transactionId, address indexed actor);
+    event SarGenerated(uint256 indexed caseId, bytes32 indexed reportHash, address indexed generatedBy);
+
+    error MissingRole(bytes32 role, address account);
+    error InvalidScanContract();
+    error InvalidTransactionId();
+    error InvalidAssignee(address assignee);
+    error CaseNotFound(uint256 caseId);
+    error CaseClosed(uint256 caseId);
+    error InvalidCaseTransition(uint256 caseId, CaseStatus fromStatus, CaseStatus toStatus);
+    error CaseNotEscalated(uint256 caseId, CaseStatus status);
+    error CaseAssignedToAnotherOfficer(uint256 caseId, address assignee);
+    error CaseAlreadyDisclosed(uint256 caseId);
+    error InvalidNoteHash();
+    error InvalidReportHash();
+
+    modifier onlyOfficer(uint256 caseId) {
+        _checkOfficer(bytes32(caseId));
+        _;
+    }
+
+    modifier caseExists(uint256 caseId) {
+        _checkCaseExists(caseId);
+        _;
+    }
+
+    constructor(address amlScanAddress) {
+        if (amlScanAddress == address(0)) revert InvalidScanContract();
+        amlScan = amlScanAddress;
+    }
+
+    /// @notice Opens a case for a flagged transaction, or returns the existing one.
+    /// @dev Called by `AmlScanFHE` when a transaction is flagged; officers may also open cases manually.
+    function openCase(bytes32 transactionId) external returns (uint256 caseId) {
+        if (msg.sender != amlScan) {
+            _checkOfficer(transactionId);
+        }
+        if (transactionId == bytes32(0)) revert InvalidTransactionId();
+
+        caseId = caseIdsByTransaction[transactionId];
+        if (caseId != 0) {
+            return caseId;
+        }
+
+        caseId = ++caseCount;
+        cases[caseId] = Case({
+            transactionId: transactionId,
+            status: CaseStatus.Open,
+            assignee: address(0),
+            openedAt: block.timestamp,
+            updatedAt: block.timestamp
+        });
+        caseIdsByTransaction[transactionId] = caseId;
+        caseHistory[caseId].push(
+            CaseTransition({
+                fromStatus: CaseStatus.None,
+                toStatus: CaseStatus.Open,
+                actor: msg.sender,
+                timestamp: block.timestamp,
+                noteHash: bytes32(0)
+            })
+        );
+
+        emit CaseOpened(caseId, transactionId);
+    }
+
+    /// @notice Assigns an unassigned case, or hands over a case assigned to the caller.
+    function assignCase(uint256 caseId, address assignee) external onlyOfficer(caseId) caseExists(caseId) {
+        if (!IAmlRoleRegistry(amlScan).hasRole(COMPLIANCE_OFFICER_ROLE, assignee)) revert InvalidAssignee(assignee);
+        if (_isClosed(cases[caseId].status)) revert CaseClosed(caseId);
+        address current = cases[caseId].assignee;
+        if (current != address(0) && current != msg.sender) revert CaseAssignedToAnotherOfficer(caseId, current);
+
+        cases[caseId].assignee = assignee;
+        cases[caseId].updatedAt = block.timestamp;
+        emit CaseAssigned(caseId, assignee, msg.sender);
+    }
+
+    function startReview(uint256 caseId, bytes32 noteHash) external onlyOfficer(caseId) caseExists(caseId) {
+        _requireStatus(caseId, CaseStatus.Open, CaseStatus.UnderReview);
+        _transition(caseId, CaseStatus.UnderReview, noteHash);
+    }
+
+    function escalateCase(uint256 caseId, bytes32 noteHash) external onlyOfficer(caseId) caseExists(caseId) {
+        _requireStatus(caseId, CaseStatus.UnderReview, CaseStatus.Escalated);
+        _transition(caseId, CaseStatus.Escalated, noteHash);
+    }
+
+    function closeAsFalsePositive(uint256 caseId, bytes32 noteHash) external onlyOfficer(caseId) caseExists(caseId) {
+        CaseStatus status = cases[caseId].status;
+        if (_isClosed(status)) revert InvalidCaseTransition(caseId, status, CaseStatus.ClosedFalsePositive);
+        _transition(caseId, CaseStatus.ClosedFalsePositive, noteHash);
+    }
+
+    function reportCase(uint256 caseId, bytes32 noteHash) external onlyOfficer(caseId) caseExists(caseId) {
+        _requireStatus(caseId, CaseStatus.Escalated, CaseStatus.Reported);
+        _transition(caseId, CaseStatus.Reported, noteHash);
+    }
+
+    /// @notice Attaches a reviewer note; only its hash is stored, the note itself lives off-chain.
+    function addCaseNote(uint256 caseId, bytes32 noteHash) external onlyOfficer(caseId) caseExists(caseId) {
+        if (noteHash == bytes32(0)) revert InvalidNoteHash();
+        caseNotes[caseId].push(noteHash);
+        cases[caseId].updatedAt = block.timestamp;
+        emit CaseNoteAdded(caseId, noteHash, msg.sender);
+    }
+
+    /// @notice Records that a Suspicious Activity Report was generated off-chain for an escalated case.
+    /// @param reportHash keccak256 of the canonical JSON report, so the exported file can be checked later.
+    function recordSarGenerated(uint256 caseId, bytes32 reportHash) external onlyOfficer(caseId) caseExists(caseId) {
+        CaseStatus status = cases[caseId].status;
+        if (status != CaseStatus.Escalated && status != CaseStatus.Reported) {
+            revert CaseNotEscalated(caseId, status);
+        }
+        if (reportHash == bytes32(0)) revert InvalidReportHash();
+        emit SarGenerated(caseId, reportHash, msg.sender);
+    }
+
+    /// @notice Opens the risk score of an escalated case's transaction to public decryption.
+    /// @dev Scores are otherwise only user-decryptable by the reporter and auditors.
+    function discloseCase(uint256 caseId) external onlyOfficer(caseId) caseExists(caseId) {
+        CaseStatus status = cases[caseId].status;
+        if (status != CaseStatus.Escalated && status != CaseStatus.Reported) {
+            revert CaseNotEscalated(caseId, status);
+        }
+        if (isDisclosed[caseId]) revert CaseAlreadyDisclosed(caseId);
+
+        isDisclosed[caseId] = true;
+        IAmlScan(amlScan).discloseRiskScore(cases[caseId].transactionId, msg.sender);
+        emit CaseDisclosed(caseId, cases[caseId].transactionId, msg.sender);
+    }
+
+    function _transition(uint256 caseId, CaseStatus toStatus, bytes32 noteHash) private {
+        Case storage c = cases[caseId];
+        if (c.assignee != address(0) && c.assignee != msg.sender) {
+            revert CaseAssignedToAnotherOfficer(caseId, c.assignee);
+        }
+
+        CaseStatus fromStatus = c.status;
+        c.status = toStatus;
+        c.updatedAt = block.timestamp;
+        caseHistory[caseId].push(
+            CaseTransition({
+                fromStatus: fromStatus,
+                toStatus: toStatus,
+                actor: msg.sender,
+                timestamp: block.timestamp,
+                noteHash: noteHash
+            })
+        );
+        if (noteHash != bytes32(0)) {
+            caseNotes[caseId].push(noteHash);
+            emit CaseNoteAdded(caseId, noteHash, msg.sender);
+        }
+
+        emit CaseStatusChanged(caseId, fromStatus, toStatus, msg.sender, noteHash);
+    }
+
+    /// @dev Officer actions are appended to the scan contract's audit log with the case (or, for
+    /// `openCase`, transaction) they act on, if a log is configured.
+    function _checkOfficer(bytes32 targetId) private {
+        if (!IAmlRoleRegistry(amlScan).hasRole(COMPLIANCE_OFFICER_ROLE, msg.sender)) {
+            revert MissingRole(COMPLIANCE_OFFICER_ROLE, msg.sender);
+        }
+        IAmlAuditLog log = IAmlScan(amlScan).auditLog();
+        if (address(log) != address(0)) {
+            log.append(msg.sender, msg.sig, targetId);
+        }
+    }
+
+    function _checkCaseExists(uint256 caseId) private view {
+        if (cases[caseId].status == CaseStatus.None) revert CaseNotFound(caseId);
+    }
+
+    function _requireStatus(uint256 caseId, CaseStatus expected, CaseStatus toStatus) private view {
+        CaseStatus status = cases[caseId].status;
+        if (status != expected) revert InvalidCaseTransition(caseId, status, toStatus);
+    }
+
+    function _isClosed(CaseStatus status) private pure returns (bool) {
+        return status == CaseStatus.ClosedFalsePositive || status == CaseStatus.Reported;
+    }
+
+    function getCase(uint256 caseId)
+        external
+        view
+        caseExists(caseId)
+        returns (
+            bytes32 transactionId,
+            CaseStatus status,
+            address assignee,
+            uint256 openedAt,
+            uint256 updatedAt
+        )
+    {
+        Case storage c = cases[caseId];
+        return (c.transactionId, c.status, c.assignee, c.openedAt, c.updatedAt);
+    }
+
+    function getCaseIdByTransaction(bytes32 transactionId) external view returns (uint256) {
+        return caseIdsByTransaction[transactionId];
+    }
+
+    function getCaseHistory(uint256 caseId) external view caseExists(caseId) returns (CaseTransition[] memory) {
+        return caseHistory[caseId];
+    }
+
+    function getCaseNotes(uint256 caseId) external view caseExists(caseId) returns (bytes32[] memory) {
+        return caseNotes[caseId];
+    }
+}
@@ -0,0 +1,166 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IAmlAuditLog } from "./interfaces/IAmlAuditLog.sol";
+import { IAmlScan } from "./interfaces/IAmlScan.sol";
+
+/// @notice Encrypted risk tiers for transactions recorded by `AmlScanFHE`.
+/// @dev Roles are read from the scan contract. Risk scores are only readable here for transactions
+/// recorded after this contract was registered with `AmlScanFHE.setRiskTierContract`.
+contract AmlRiskTiers is ZamaEthereumConfig {
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant COMPLIANCE_OFFICER_ROLE = keccak256("COMPLIANCE_OFFICER_ROLE");
+
+    uint256 public constant MAX_TIER_BOUNDARIES = 4;
+
+    /// @dev `tier` counts the boundaries the encrypted risk score reaches, so tier 0 is the lowest.
+    struct TierResult {
+        euint32 tier;
+        bool isScanned;
+        bool isRevealed;
+        uint32 revealedTier;
+        uint32 configVersion;
+    }
+
+    address public immutable amlScan;
+
+    euint32[] private boundaries;
+    uint32 public highRiskTier;
+    uint32 public configVersion;
+    mapping(bytes32 => TierResult) private tierResults;
+
+    event RiskTiersUpdated(uint32 version, uint256 boundaryCount, uint32 highRiskTier);
+    event TierAccessGranted(address indexed grantee);
+    event RiskTierScanned(bytes32 indexed transactionId, uint32 configVersion);
+    event RiskTierAssigned(bytes32 indexed transactionId, uint32 indexed tier, bool isHighRisk);
+    event HighRiskAlert(bytes32 indexed transactionId, uint32 tier);
+
+    error MissingRole(bytes32 role, address account);
+    error InvalidScanContract();
+    error InvalidRiskTiers();
+    error RiskTiersNotConfigured();
+    error AlreadyScanned(bytes32 transactionId);
+    error NotScanned(bytes32 transactionId);
+    error AlreadyRevealed(bytes32 transactionId);
+
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    constructor(address amlScanAddress) ZamaEthereumConfig() {
+        if (amlScanAddress == address(0)) revert InvalidScanContract();
+        amlScan = amlScanAddress;
+    }
+
+    /// @notice Replaces the encrypted tier boundaries; a score reaching boundary `i` is at least tier `i + 1`.
+    /// @param highTier Lowest tier whose revealed transactions raise a `HighRiskAlert`.
+    /// @dev Boundaries must be ascending for tiers to be contiguous; they are encrypted, so this cannot be checked here.
+    function setRiskTiers(
+        externalEuint32[] calldata encryptedBoundaries,
+        uint32 highTier,
+        bytes calldata inputProof
+    ) external onlyRole(ADMIN_ROLE) {
+        if (
+            encryptedBoundaries.length == 0 ||
+            encryptedBoundaries.length > MAX_TIER_BOUNDARIES ||
+            highTier == 0 ||
+            highTier > encryptedBoundaries.length
+        ) revert InvalidRiskTiers();
+
+        delete boundaries;
+        for (uint256 i = 0; i < encryptedBoundaries.length; i++) {
+            euint32 boundary = FHE.fromExternal(encryptedBoundaries[i], inputProof);
+            FHE.allowThis(boundary);
+            FHE.allow(boundary, msg.sender);
+            boundaries.push(boundary);
+        }
+        highRiskTier = highTier;
+        configVersion++;
+        _audit(bytes32(uint256(configVersion)));
+        emit RiskTiersUpdated(configVersion, encryptedBoundaries.length, highTier);
+    }
+
+    /// @notice Grants the calling compliance officer ACL access to the current tier boundaries.
+    function grantTierAccess() external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(bytes32(uint256(configVersion)));
+        for (uint256 i = 0; i < boundaries.length; i++) {
+            FHE.allow(boundaries[i], msg.sender);
+        }
+        emit TierAccessGranted(msg.sender);
+    }
+
+    /// @notice Computes the encrypted tier of a transaction from its encrypted risk score.
+    /// @dev The tier index is made publicly decryptable; reveal it with `revealRiskTier` to route the alert.
+    function scanRiskTier(bytes32 transactionId) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(transactionId);
+        if (configVersion == 0) revert RiskTiersNotConfigured();
+        if (tierResults[transactionId].isScanned) revert AlreadyScanned(transactionId);
+        (, euint32 riskScore) = IAmlScan(amlScan).getEncryptedHandles(transactionId);
+
+        euint32 tier = FHE.asEuint32(0);
+        for (uint256 i = 0; i < boundaries.length; i++) {
+            tier = FHE.add(tier, FHE.asEuint32(FHE.ge(riskScore, boundaries[i])));
+        }
+        FHE.allowThis(tier);
+        FHE.allow(tier, msg.sender);
+        FHE.makePubliclyDecryptable(tier);
+
+        tierResults[transactionId] = TierResult({
+            tier: tier,
+            isScanned: true,
+            isRevealed: false,
+            revealedTier: 0,
+            configVersion: configVersion
+        });
+        emit RiskTierScanned(transactionId, configVersion);
+    }
+
+    /// @notice Publishes a decrypted tier so downstream systems can route the alert by tier.
+    function revealRiskTier(
+        bytes32 transactionId,
+        bytes memory abiEncodedClearValue,
+        bytes memory decryptionProof
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(transactionId);
+        TierResult storage result = tierResults[transactionId];
+        if (!result.isScanned) revert NotScanned(transactionId);
+        if (result.isRevealed) revert AlreadyRevealed(transactionId);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(result.tier);
+
+        FHE.checkSignatures(cts, abiEncodedClearValue, decryptionProof);
+        uint32 tier = abi.decode(abiEncodedClearValue, (uint32));
+
+        result.isRevealed = true;
+        result.revealedTier = tier;
+        bool isHighRisk = tier >= highRiskTier;
+        emit RiskTierAssigned(transactionId, tier, isHighRisk);
+        if (isHighRisk) {
+            emit HighRiskAlert(transactionId, tier);
+        }
+    }
+
+    function getRiskTiers() external view returns (euint32[] memory, uint32 highTier, uint32 version) {
+        return (boundaries, highRiskTier, configVersion);
+    }
+
+    function getTierResult(bytes32 transactionId) external view returns (TierResult memory) {
+        return tierResults[transactionId];
+    }
+
+    function _checkRole(bytes32 role) private view {
+        if (!IAmlScan(amlScan).hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+    }
+
+    /// @dev Role-gated actions are appended to the scan contract's audit log with the transaction or
+    /// tier configuration version they act on, if a log is configured.
+    function _audit(bytes32 targetId) private {
+        IAmlAuditLog log = IAmlScan(amlScan).auditLog();
+        if (address(log) != address(0)) {
+            log.append(msg.sender, msg.sig, targetId);
+        }
+    }
+}
@@ -1,67 +1,556 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint32, euint64, externalEuint32, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IAmlAuditLog } from "./interfaces/IAmlAuditLog.sol";
+import { IAmlCaseManager } from "./interfaces/IAmlCaseManager.sol";
 
 contract AmlScanFHE is ZamaEthereumConfig {
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant COMPLIANCE_OFFICER_ROLE = keccak256("COMPLIANCE_OFFICER_ROLE");
+    bytes32 public constant REPORTER_ROLE = keccak256("REPORTER_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+
+    uint256 public constant MAX_RULE_NODES = 16;
+    uint256 public constant MAX_VELOCITY_WINDOWS = 4;
+    uint256 public constant VELOCITY_BUCKETS = 4;
+    uint256 public constant MAX_WATCHLIST_ENTRIES = 32;
+    uint256 public constant MAX_STRUCTURING_RULES = 4;
+    /// @dev 16 records x (64 + 32) bits stays within the 2048-bit limit of a single encrypted input.
+    uint256 public constant MAX_TRANSACTION_BATCH = 16;
+    /// @dev FHEVM caps the homomorphic compute units (HCU) one transaction may spend. Recording costs
+    /// are worst cases per configured item, assuming a distinct sender and receiver.
+    uint256 private constant TRANSACTION_HCU_LIMIT = 20_000_000;
+    uint256 private constant RECORD_HCU_BASE = 10_000;
+    uint256 private constant RECORD_HCU_PER_VELOCITY_WINDOW = 514_000;
+    uint256 private constant RECORD_HCU_PER_WATCHLIST_ENTRY = 288_000;
+    uint256 private constant RECORD_HCU_PER_STRUCTURING_RULE = 451_000;
+    uint256 public constant MAX_PAGE_SIZE = 100;
+    uint256 public constant RISK_FACTOR_COUNT = 4;
+    uint32 public constant MAX_RISK_SCORE = 100;
+
+    enum RuleKind {
+        Threshold,
+        Composite,
+        Structuring
+    }
+
+    enum NodeKind {
+        Compare,
+        And,
+        Or,
+        Flag
+    }
+
+    enum RuleField {
+        RiskScore,
+        Amount,
+        SenderVelocitySum,
+        SenderVelocityCount,
+        ReceiverVelocitySum,
+        ReceiverVelocityCount,
+        SenderWatchlistHit,
+        ReceiverWatchlistHit
+    }
+
+    /// @dev Index of each factor in `setRiskWeights` and `recordScoredTransaction`.
+    enum RiskFactor {
+        AmountBand,
+        Geography,
+        CounterpartyRisk,
+        Velocity
+    }
+
+    enum CompareOp {
+        GreaterThan,
+        GreaterOrEqual,
+        LessThan,
+        LessOrEqual
+    }
+
     struct Transaction {
         address sender;
         address receiver;
-        uint256 amount;
+        euint64 encryptedAmount;
         uint256 timestamp;
         euint32 encryptedRiskScore;
+        ebool senderWatchlistHit;
+        ebool receiverWatchlistHit;
         uint32 decryptedRiskScore;
         bool isFlagged;
         bool isVerified;
+        bool exists;
     }
 
     struct RiskRule {
-        string ruleId;
+        bytes32 ruleId;
+        RuleKind kind;
+        euint32 encryptedThreshold;
+        uint32 decryptedThreshold;
+        bool isVerified;
+        bool exists;
+        uint32 version;
+        bool enabled;
+        uint256 activeFrom;
+        uint256 activeUntil;
+    }
+
+    /// @dev One entry per threshold calibration; composite and structuring rules only ever have version 1.
+    struct RuleVersion {
+        uint32 version;
         euint32 encryptedThreshold;
         uint32 decryptedThreshold;
         bool isVerified;
+        uint256 createdAt;
+        address createdBy;
+    }
+
+    /// @dev Composite rules are stored in postfix order: `And`/`Or` nodes reference earlier
+    /// nodes by index and the last node is the root of the expression. `Flag` nodes read a
+    /// boolean field such as a watchlist hit; `Compare` nodes read a numeric field.
+    /// Velocity fields read the counter of velocity window `window`.
+    struct RuleNodeInput {
+        NodeKind kind;
+        RuleField field;
+        CompareOp op;
+        uint8 left;
+        uint8 right;
+        uint8 window;
+    }
+
+    struct RuleNode {
+        NodeKind kind;
+        RuleField field;
+        CompareOp op;
+        uint8 left;
+        uint8 right;
+        uint8 window;
+        euint64 encryptedThreshold;
+    }
+
+    /// @dev Windows roll over `VELOCITY_BUCKETS` sub-windows of `velocityWindows[i] / VELOCITY_BUCKETS`
+    /// seconds each. A bucket counts towards the window while `index` is one of the last
+    /// `VELOCITY_BUCKETS` bucket numbers and `epoch` matches the window configuration.
+    struct VelocityBucket {
+        euint64 sum;
+        euint32 count;
+        uint64 index;
+        uint64 epoch;
+    }
+
+    /// @dev Counts transactions from one sender whose amount falls in [bandLower, bandUpper]
+    /// within a tumbling window of `windowSeconds`. Every transaction is counted when it is recorded,
+    /// so the flag does not depend on the order in which transactions are scanned.
+    struct StructuringRule {
+        euint64 bandLower;
+        euint64 bandUpper;
+        euint32 countLimit;
+        uint256 windowSeconds;
+    }
+
+    struct StructuringCounter {
+        euint32 count;
+        uint256 windowStart;
+    }
+
+    struct TransactionView {
+        bytes32 id;
+        address sender;
+        address receiver;
+        uint256 timestamp;
+        uint32 decryptedRiskScore;
+        bool isFlagged;
+        bool isVerified;
+    }
+
+    struct RuleView {
+        bytes32 id;
+        RuleKind kind;
+        uint32 decryptedThreshold;
+        bool isVerified;
+        uint256 nodeCount;
+        uint32 version;
+        bool enabled;
+        uint256 activeFrom;
+        uint256 activeUntil;
+        bool isActive;
+    }
+
+    struct ScanResult {
+        ebool encryptedFlag;
+        bool isScanned;
+        bool isRevealed;
+        bool isHit;
+        uint32 ruleVersion;
     }
 
-    mapping(string => Transaction) public transactions;
-    mapping(string => RiskRule) public riskRules;
-    string[] public transactionIds;
-    string[] public ruleIds;
+    /// @dev Result of the latest `scanAll` over a transaction: `anyHit` is the OR of every
+    /// evaluated rule flag and `hitCount` the number of those flags that are true. Rules from
+    /// `nextRule` on have not been scanned yet; the aggregate covers every rule once it reaches `getRuleCount()`.
+    struct AggregateScan {
+        ebool anyHit;
+        euint32 hitCount;
+        uint32 rulesEvaluated;
+        uint32 rulesSkipped;
+        uint32 nextRule;
+        uint256 scannedAt;
+    }
+
+    /// @dev The delegate only gains ACL access by calling `claimDelegatedAccess` while the delegation is
+    /// active. ACL entries cannot be withdrawn, so expiry and revocation stop further claims but do not
+    /// take back access that was already claimed.
+    struct Delegation {
+        uint64 expiresAt;
+        bool revoked;
+        address grantedBy;
+    }
 
+    mapping(bytes32 => Transaction) private transactions;
+    mapping(bytes32 => RiskRule) public riskRules;
+    bytes32[] public transactionIds;
+    bytes32[] public ruleIds;
+    mapping(bytes32 => mapping(bytes32 => ScanResult)) private scanResults;
+    mapping(bytes32 => AggregateScan) private aggregateScans;
+    mapping(bytes32 => mapping(address => Delegation)) private delegations;
+    mapping(bytes32 => RuleVersion[]) private ruleVersions;
+    mapping(bytes32 => RuleNode[]) private ruleNodes;
+    mapping(bytes32 => StructuringRule) private structuringRules;
+    mapping(bytes32 => mapping(address => StructuringCounter)) private structuringCounters;
+    /// @dev transactionId => ruleId => the sender's in-band count right after the transaction was recorded
+    mapping(bytes32 => mapping(bytes32 => euint32)) private structuringCounts;
+    bytes32[] private structuringRuleIds;
+    mapping(bytes32 => mapping(address => bool)) private roleMembers;
+    uint256[] private velocityWindows;
+    uint256 public velocityEpoch;
+    mapping(address => mapping(uint256 => VelocityBucket[VELOCITY_BUCKETS])) private velocityBuckets;
+    euint64[] private watchlist;
+    uint256[] private watchlistEntryIds;
+    mapping(uint256 => uint256) private watchlistPositions;
+    uint256 public nextWatchlistEntryId;
+    IAmlCaseManager public caseManager;
+    euint32[RISK_FACTOR_COUNT] private riskWeights;
+    uint32 public riskModelVersion;
+    address public riskTierContract;
+    IAmlAuditLog public auditLog;
+
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event DecryptionAccessGranted(bytes32 indexed id, address indexed account, bool isTransaction);
+    event DelegationGranted(
+        bytes32 indexed transactionId,
+        address indexed delegate,
+        uint64 expiresAt,
+        address indexed grantedBy
+    );
+    event DelegationRevoked(bytes32 indexed transactionId, address indexed delegate, address indexed revokedBy);
+    event VelocityWindowsUpdated(uint256[] windows, uint256 epoch);
+    event VelocityAccessGranted(address indexed account, address indexed grantee);
+    event CaseManagerUpdated(address indexed caseManager);
+    event RiskModelUpdated(uint32 version, address indexed updatedBy);
+    event RiskTierContractUpdated(address indexed riskTierContract);
+    event AuditLogUpdated(address indexed auditLog);
+    event WatchlistEntryAdded(uint256 indexed entryId, address indexed addedBy);
+    event WatchlistEntryRemoved(uint256 indexed entryId, address indexed removedBy);
     event TransactionRecorded(
-        string indexed transactionId,
+        bytes32 indexed transactionId,
         address indexed sender,
         address indexed receiver
     );
-    event RiskRuleAdded(string indexed ruleId);
-    event TransactionFlagged(string indexed transactionId, uint32 riskScore);
-    event DecryptionVerified(string indexed id, uint32 decryptedValue);
+    event RiskRuleAdded(bytes32 indexed ruleId);
+    event RiskRuleUpdated(bytes32 indexed ruleId, uint32 version);
+    event RiskRuleActivated(bytes32 indexed ruleId, address indexed actor);
+    event RiskRuleDeactivated(bytes32 indexed ruleId, address indexed actor);
+    event RiskRuleScheduled(bytes32 indexed ruleId, uint256 activeFrom, uint256 activeUntil);
+    event ScanSkipped(bytes32 indexed transactionId, bytes32 indexed ruleId);
+    event CompositeRiskRuleAdded(bytes32 indexed ruleId, uint256 nodeCount);
+    event StructuringRuleAdded(bytes32 indexed ruleId, uint256 windowSeconds);
+    event StructuringFlagComputed(bytes32 indexed transactionId, bytes32 indexed ruleId, address indexed sender);
+    event TransactionFlagged(bytes32 indexed transactionId, uint32 riskScore);
+    event DecryptionVerified(bytes32 indexed id, uint32 decryptedValue);
+    event DecryptionRequested(bytes32 indexed id, bool isTransaction);
+    event EncryptedScanPerformed(bytes32 indexed transactionId, bytes32 indexed ruleId, uint32 ruleVersion);
+    event AggregateScanPerformed(bytes32 indexed transactionId, uint32 rulesEvaluated, uint32 rulesSkipped);
+    event ScanResultRevealed(bytes32 indexed transactionId, bytes32 indexed ruleId, bool isHit);
+
+    error MissingRole(bytes32 role, address account);
+    error InvalidAccount();
+    error CannotRevokeOwnAdminRole();
+    error TooManyVelocityWindows();
+    error InvalidVelocityWindow();
+    error InvalidBatchSize();
+    error BatchLengthMismatch();
+    error InvalidEncryptedInput();
+    error RiskModelNotConfigured();
+    error CallerNotCaseManager();
+    error InvalidDelegationExpiry();
+    error DelegationNotFound(bytes32 transactionId, address delegate);
+    error DelegationInactive(bytes32 transactionId, address delegate);
+    error InvalidTransactionId();
+    error TransactionAlreadyExists(bytes32 transactionId);
+    error TransactionNotFound(bytes32 transactionId);
+    error InvalidRuleId();
+    error RuleAlreadyExists(bytes32 ruleId);
+    error RuleNotFound(bytes32 ruleId);
+    error UnexpectedRuleKind(bytes32 ruleId, RuleKind kind);
+    error InvalidRuleSize();
+    error InvalidRuleNode(uint256 index);
+    error ThresholdCountMismatch();
+    error InvalidStructuringWindow();
+    error TooManyStructuringRules();
+    error InvalidRuleSchedule();
+    error AlreadyVerified(bytes32 id);
+    error NotVerified(bytes32 id);
+    error AlreadyScanned(bytes32 transactionId, bytes32 ruleId);
+    error ScanAllOutOfOrder(bytes32 transactionId, uint256 nextRule);
+    error NotScanned(bytes32 transactionId, bytes32 ruleId);
+    error AlreadyRevealed(bytes32 transactionId, bytes32 ruleId);
+    error WatchlistFull();
+    error WatchlistEntryNotFound(uint256 entryId);
+
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    constructor() ZamaEthereumConfig() {
+        _grantRole(ADMIN_ROLE, msg.sender);
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roleMembers[role][account];
+    }
+
+    function grantRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        _audit(_roleTarget(role, account));
+        if (account == address(0)) revert InvalidAccount();
+        _grantRole(role, account);
+    }
+
+    function revokeRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        _audit(_roleTarget(role, account));
+        if (role == ADMIN_ROLE && account == msg.sender) revert CannotRevokeOwnAdminRole();
+        if (roleMembers[role][account]) {
+            roleMembers[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    /// @dev Audit target of a role change: the first 12 bytes of `role` followed by `account`.
+    function _roleTarget(bytes32 role, address account) private pure returns (bytes32) {
+        return bytes32(bytes12(role)) | bytes32(uint256(uint160(account)));
+    }
+
+    function _checkRole(bytes32 role) private view {
+        if (!roleMembers[role][msg.sender]) revert MissingRole(role, msg.sender);
+    }
 
-    constructor() ZamaEthereumConfig() {}
+    /// @dev Appends the called function and `targetId` for `msg.sender`, if a log is configured.
+    /// Every role-gated call audits once per id it acts on; batch calls append one entry per id.
+    function _audit(bytes32 targetId) private {
+        _audit(msg.sender, targetId);
+    }
+
+    function _audit(address actor, bytes32 targetId) private {
+        if (address(auditLog) != address(0)) {
+            auditLog.append(actor, msg.sig, targetId);
+        }
+    }
+
+    function _grantRole(bytes32 role, address account) private {
+        if (!roleMembers[role][account]) {
+            roleMembers[role][account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    /// @notice Sets the case manager that receives a case for every flagged transaction; zero disables it.
+    function setCaseManager(address newCaseManager) external onlyRole(ADMIN_ROLE) {
+        _audit(bytes32(uint256(uint160(newCaseManager))));
+        caseManager = IAmlCaseManager(newCaseManager);
+        emit CaseManagerUpdated(newCaseManager);
+    }
+
+    /// @notice Sets the `AmlRiskTiers` contract that is granted ACL access to newly recorded risk scores.
+    function setRiskTierContract(address newRiskTierContract) external onlyRole(ADMIN_ROLE) {
+        _audit(bytes32(uint256(uint160(newRiskTierContract))));
+        riskTierContract = newRiskTierContract;
+        emit RiskTierContractUpdated(newRiskTierContract);
+    }
+
+    /// @notice Sets the `AmlAuditLog` that role-gated actions are appended to; zero disables auditing.
+    function setAuditLog(address newAuditLog) external onlyRole(ADMIN_ROLE) {
+        _audit(bytes32(uint256(uint160(newAuditLog))));
+        auditLog = IAmlAuditLog(newAuditLog);
+        emit AuditLogUpdated(newAuditLog);
+    }
+
+    /// @notice Replaces the velocity window lengths (in seconds); counters recorded under the previous
+    /// configuration no longer count. Each window must span at least one second per bucket.
+    function setVelocityWindows(uint256[] calldata windows) external onlyRole(ADMIN_ROLE) {
+        if (windows.length > MAX_VELOCITY_WINDOWS) revert TooManyVelocityWindows();
+        for (uint256 i = 0; i < windows.length; i++) {
+            if (windows[i] < VELOCITY_BUCKETS) revert InvalidVelocityWindow();
+        }
+        velocityWindows = windows;
+        velocityEpoch++;
+        _audit(bytes32(velocityEpoch));
+        emit VelocityWindowsUpdated(windows, velocityEpoch);
+    }
+
+    /// @notice Replaces the weights of the risk scoring model, indexed by `RiskFactor`.
+    /// @dev Weights are percentage points and are expected to sum to 100 so that the score of
+    /// factors in [0, 100] stays in [0, 100]; they are encrypted, so this cannot be checked here.
+    /// Each weight is clamped to 100 so the weighted sum cannot overflow `euint32`.
+    function setRiskWeights(
+        externalEuint32[RISK_FACTOR_COUNT] calldata encryptedWeights,
+        bytes calldata inputProof
+    ) external onlyRole(ADMIN_ROLE) {
+        for (uint256 i = 0; i < RISK_FACTOR_COUNT; i++) {
+            euint32 weight = FHE.min(FHE.fromExternal(encryptedWeights[i], inputProof), MAX_RISK_SCORE);
+            FHE.allowThis(weight);
+            FHE.allow(weight, msg.sender);
+            riskWeights[i] = weight;
+        }
+        riskModelVersion++;
+        _audit(bytes32(uint256(riskModelVersion)));
+        emit RiskModelUpdated(riskModelVersion, msg.sender);
+    }
 
+    /// @notice Records a transaction whose amount and risk score are both encrypted under one input proof.
     function recordTransaction(
-        string calldata transactionId,
+        bytes32 transactionId,
         address sender,
         address receiver,
-        uint256 amount,
+        externalEuint64 encryptedAmount,
         externalEuint32 encryptedRiskScore,
         bytes calldata inputProof
-    ) external {
-        require(bytes(transactions[transactionId].sender).length == 0, "Transaction already exists");
-        require(FHE.isInitialized(FHE.fromExternal(encryptedRiskScore, inputProof)), "Invalid encrypted input");
+    ) external onlyRole(REPORTER_ROLE) {
+        _recordTransaction(
+            transactionId,
+            sender,
+            receiver,
+            FHE.fromExternal(encryptedAmount, inputProof),
+            FHE.fromExternal(encryptedRiskScore, inputProof)
+        );
+    }
+
+    /// @notice Records several transactions whose handles all come from one encrypted input and proof.
+    /// @dev At most `maxTransactionBatch()` transactions fit in one call.
+    function recordTransactions(
+        bytes32[] calldata ids,
+        address[] calldata senders,
+        address[] calldata receivers,
+        externalEuint64[] calldata encryptedAmounts,
+        externalEuint32[] calldata encryptedRiskScores,
+        bytes calldata inputProof
+    ) external onlyRole(REPORTER_ROLE) {
+        if (ids.length == 0 || ids.length > maxTransactionBatch()) revert InvalidBatchSize();
+        if (
+            senders.length != ids.length ||
+            receivers.length != ids.length ||
+            encryptedAmounts.length != ids.length ||
+            encryptedRiskScores.length != ids.length
+        ) revert BatchLengthMismatch();
 
-        euint32 encryptedValue = FHE.fromExternal(encryptedRiskScore, inputProof);
+        for (uint256 i = 0; i < ids.length; i++) {
+            _recordTransaction(
+                ids[i],
+                senders[i],
+                receivers[i],
+                FHE.fromExternal(encryptedAmounts[i], inputProof),
+                FHE.fromExternal(encryptedRiskScores[i], inputProof)
+            );
+        }
+    }
+
+    /// @notice Largest `recordTransactions` batch that stays within the HCU limit under the current
+    /// velocity window, watchlist and structuring rule configuration, capped at `MAX_TRANSACTION_BATCH`.
+    function maxTransactionBatch() public view returns (uint256) {
+        uint256 perRecord = RECORD_HCU_BASE +
+            velocityWindows.length * RECORD_HCU_PER_VELOCITY_WINDOW +
+            watchlist.length * RECORD_HCU_PER_WATCHLIST_ENTRY +
+            structuringRuleIds.length * RECORD_HCU_PER_STRUCTURING_RULE;
+        uint256 limit = TRANSACTION_HCU_LIMIT / perRecord;
+        return limit < MAX_TRANSACTION_BATCH ? limit : MAX_TRANSACTION_BATCH;
+    }
+
+    /// @notice Records a transaction whose risk score is computed on-chain from encrypted factors.
+    /// @dev Factors are indexed by `RiskFactor`, range over [0, 100] (larger values count as 100) and share
+    /// one input proof with the amount.
+    function recordScoredTransaction(
+        bytes32 transactionId,
+        address sender,
+        address receiver,
+        externalEuint64 encryptedAmount,
+        externalEuint32[RISK_FACTOR_COUNT] calldata encryptedFactors,
+        bytes calldata inputProof
+    ) external onlyRole(REPORTER_ROLE) {
+        _recordTransaction(
+            transactionId,
+            sender,
+            receiver,
+            FHE.fromExternal(encryptedAmount, inputProof),
+            _computeRiskScore(encryptedFactors, inputProof)
+        );
+    }
+
+    /// @dev score = min(sum(weight[i] * min(factor[i], 100)) / 100, MAX_RISK_SCORE). Clamping the
+    /// factors keeps an out-of-range input from wrapping the sum to a low score.
+    function _computeRiskScore(
+        externalEuint32[RISK_FACTOR_COUNT] calldata encryptedFactors,
+        bytes calldata inputProof
+    ) private returns (euint32) {
+        if (riskModelVersion == 0) revert RiskModelNotConfigured();
+
+        euint32 weightedSum = FHE.asEuint32(0);
+        for (uint256 i = 0; i < RISK_FACTOR_COUNT; i++) {
+            euint32 factor = FHE.min(FHE.fromExternal(encryptedFactors[i], inputProof), MAX_RISK_SCORE);
+            weightedSum = FHE.add(weightedSum, FHE.mul(factor, riskWeights[i]));
+        }
+        return FHE.min(FHE.div(weightedSum, 100), MAX_RISK_SCORE);
+    }
+
+    function _recordTransaction(
+        bytes32 transactionId,
+        address sender,
+        address receiver,
+        euint64 amountValue,
+        euint32 encryptedValue
+    ) private {
+        if (transactionId == bytes32(0)) revert InvalidTransactionId();
+        if (transactions[transactionId].exists) revert TransactionAlreadyExists(transactionId);
+        _audit(transactionId);
+        if (!FHE.isInitialized(amountValue) || !FHE.isInitialized(encryptedValue)) revert InvalidEncryptedInput();
+
+        FHE.allowThis(amountValue);
+        FHE.allow(amountValue, msg.sender);
         FHE.allowThis(encryptedValue);
-        FHE.makePubliclyDecryptable(encryptedValue);
+        FHE.allow(encryptedValue, msg.sender);
+        if (riskTierContract != address(0)) {
+            FHE.allow(encryptedValue, riskTierContract);
+        }
+
+        _updateVelocity(sender, amountValue);
+        if (receiver != sender) {
+            _updateVelocity(receiver, amountValue);
+        }
+        _countStructuring(transactionId, sender, amountValue);
+
+        ebool senderHit = _watchlistHit(sender);
+        ebool receiverHit = _watchlistHit(receiver);
 
         transactions[transactionId] = Transaction({
             sender: sender,
             receiver: receiver,
-            amount: amount,
+            encryptedAmount: amountValue,
             timestamp: block.timestamp,
             encryptedRiskScore: encryptedValue,
+            senderWatchlistHit: senderHit,
+            receiverWatchlistHit: receiverHit,
             decryptedRiskScore: 0,
             isFlagged: false,
-            isVerified: false
+            isVerified: false,
+            exists: true
         });
 
         transactionIds.push(transactionId);
@@ -69,97 +558,736 @@ contract AmlScanFHE is ZamaEthereumConfig {
     }
 
     function addRiskRule(
-        string calldata ruleId,
+        bytes32 ruleId,
         externalEuint32 encryptedThreshold,
         bytes calldata inputProof
-    ) external {
-        require(bytes(riskRules[ruleId].ruleId).length == 0, "Rule already exists");
-        require(FHE.isInitialized(FHE.fromExternal(encryptedThreshold, inputProof)), "Invalid encrypted input");
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(ruleId);
+        _requireNewRule(ruleId);
+        euint32 encryptedValue = FHE.fromExternal(encryptedThreshold, inputProof);
+        if (!FHE.isInitialized(encryptedValue)) revert InvalidEncryptedInput();
+        FHE.allowThis(encryptedValue);
+        FHE.allow(encryptedValue, msg.sender);
+
+        _registerRule(ruleId, RuleKind.Threshold, encryptedValue);
+        emit RiskRuleAdded(ruleId);
+    }
 
+    /// @notice Recalibrates a threshold rule; the previous thresholds stay in `getRuleVersions` for audit.
+    /// @dev The new version starts unverified, so the cleartext scan path needs a fresh `verifyDecryption`.
+    function updateRiskRule(
+        bytes32 ruleId,
+        externalEuint32 encryptedThreshold,
+        bytes calldata inputProof
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(ruleId);
+        _requireRuleOfKind(ruleId, RuleKind.Threshold);
         euint32 encryptedValue = FHE.fromExternal(encryptedThreshold, inputProof);
+        if (!FHE.isInitialized(encryptedValue)) revert InvalidEncryptedInput();
         FHE.allowThis(encryptedValue);
-        FHE.makePubliclyDecryptable(encryptedValue);
+        FHE.allow(encryptedValue, msg.sender);
+
+        emit RiskRuleUpdated(ruleId, _pushRuleVersion(ruleId, encryptedValue));
+    }
 
-        riskRules[ruleId] = RiskRule({
-            ruleId: ruleId,
-            encryptedThreshold: encryptedValue,
-            decryptedThreshold: 0,
-            isVerified: false
+    /// @notice Limits a rule to `[activeFrom, activeUntil)`; zero `activeUntil` keeps it active indefinitely.
+    function setRuleSchedule(
+        bytes32 ruleId,
+        uint256 activeFrom,
+        uint256 activeUntil
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(ruleId);
+        RiskRule storage rule = _requireRule(ruleId);
+        if (activeUntil != 0 && activeUntil <= activeFrom) revert InvalidRuleSchedule();
+        rule.activeFrom = activeFrom;
+        rule.activeUntil = activeUntil;
+        emit RiskRuleScheduled(ruleId, activeFrom, activeUntil);
+    }
+
+    function setRuleEnabled(bytes32 ruleId, bool enabled) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(ruleId);
+        RiskRule storage rule = _requireRule(ruleId);
+        if (rule.enabled == enabled) {
+            return;
+        }
+        rule.enabled = enabled;
+        if (enabled) {
+            emit RiskRuleActivated(ruleId, msg.sender);
+        } else {
+            emit RiskRuleDeactivated(ruleId, msg.sender);
+        }
+    }
+
+    /// @notice Whether scans currently evaluate the rule: enabled and within its schedule.
+    function isRuleActive(bytes32 ruleId) public view returns (bool) {
+        return _isActive(riskRules[ruleId]);
+    }
+
+    /// @notice Registers a composite rule evaluated homomorphically with `FHE.and`/`FHE.or`.
+    /// @param encryptedThresholds One threshold per `Compare` node, in node order, sharing `inputProof`.
+    function addRiskRule(
+        bytes32 ruleId,
+        RuleNodeInput[] calldata nodes,
+        externalEuint64[] calldata encryptedThresholds,
+        bytes calldata inputProof
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(ruleId);
+        _requireNewRule(ruleId);
+        if (nodes.length == 0 || nodes.length > MAX_RULE_NODES) revert InvalidRuleSize();
+
+        RuleNode[] storage stored = ruleNodes[ruleId];
+        uint256 thresholdIndex = 0;
+        for (uint256 i = 0; i < nodes.length; i++) {
+            RuleNodeInput calldata node = nodes[i];
+            euint64 threshold;
+            if (node.kind == NodeKind.Flag) {
+                if (node.field < RuleField.SenderWatchlistHit) revert InvalidRuleNode(i);
+            } else if (node.kind == NodeKind.Compare) {
+                if (node.field >= RuleField.SenderWatchlistHit) revert InvalidRuleNode(i);
+                if (thresholdIndex >= encryptedThresholds.length) revert ThresholdCountMismatch();
+                threshold = FHE.fromExternal(encryptedThresholds[thresholdIndex], inputProof);
+                if (!FHE.isInitialized(threshold)) revert InvalidEncryptedInput();
+                FHE.allowThis(threshold);
+                FHE.allow(threshold, msg.sender);
+                thresholdIndex++;
+                if (node.field >= RuleField.SenderVelocitySum && node.window >= velocityWindows.length) {
+                    revert InvalidVelocityWindow();
+                }
+            } else if (node.left >= i || node.right >= i) {
+                revert InvalidRuleNode(i);
+            }
+            stored.push(
+                RuleNode({
+                    kind: node.kind,
+                    field: node.field,
+                    op: node.op,
+                    left: node.left,
+                    right: node.right,
+                    window: node.window,
+                    encryptedThreshold: threshold
+                })
+            );
+        }
+        if (thresholdIndex != encryptedThresholds.length) revert ThresholdCountMismatch();
+
+        _registerRule(ruleId, RuleKind.Composite, euint32.wrap(bytes32(0)));
+        emit CompositeRiskRuleAdded(ruleId, nodes.length);
+    }
+
+    /// @notice Registers a structuring (smurfing) rule: the encrypted flag is raised once a sender's
+    /// count of in-band amounts within the window reaches the encrypted limit. Only transactions
+    /// recorded after the rule is added are counted.
+    function addStructuringRule(
+        bytes32 ruleId,
+        externalEuint64 encryptedBandLower,
+        externalEuint64 encryptedBandUpper,
+        externalEuint32 encryptedCountLimit,
+        uint256 windowSeconds,
+        bytes calldata inputProof
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(ruleId);
+        _requireNewRule(ruleId);
+        if (windowSeconds == 0) revert InvalidStructuringWindow();
+        if (structuringRuleIds.length >= MAX_STRUCTURING_RULES) revert TooManyStructuringRules();
+
+        euint64 bandLower = FHE.fromExternal(encryptedBandLower, inputProof);
+        euint64 bandUpper = FHE.fromExternal(encryptedBandUpper, inputProof);
+        euint32 countLimit = FHE.fromExternal(encryptedCountLimit, inputProof);
+        if (!FHE.isInitialized(bandLower) || !FHE.isInitialized(bandUpper) || !FHE.isInitialized(countLimit)) {
+            revert InvalidEncryptedInput();
+        }
+
+        FHE.allowThis(bandLower);
+        FHE.allow(bandLower, msg.sender);
+        FHE.allowThis(bandUpper);
+        FHE.allow(bandUpper, msg.sender);
+        FHE.allowThis(countLimit);
+        FHE.allow(countLimit, msg.sender);
+
+        structuringRules[ruleId] = StructuringRule({
+            bandLower: bandLower,
+            bandUpper: bandUpper,
+            countLimit: countLimit,
+            windowSeconds: windowSeconds
         });
+        structuringRuleIds.push(ruleId);
+        _registerRule(ruleId, RuleKind.Structuring, euint32.wrap(bytes32(0)));
+        emit StructuringRuleAdded(ruleId, windowSeconds);
+    }
 
-        ruleIds.push(ruleId);
-        emit RiskRuleAdded(ruleId);
+    /// @notice Opts a risk score or rule threshold into public decryption for the cleartext scan path.
+    /// @dev Values recorded through this contract stay private unless this is called explicitly;
+    /// `scanTransactionEncrypted` never needs it.
+    function requestDecryption(bytes32 ruleId) external onlyRole(AUDITOR_ROLE) {
+        _audit(ruleId);
+        FHE.makePubliclyDecryptable(_requireRuleOfKind(ruleId, RuleKind.Threshold).encryptedThreshold);
+        emit DecryptionRequested(ruleId, false);
+    }
+
+    /// @notice Opens a transaction's risk score to public decryption as part of a case disclosure.
+    /// @dev Only callable through `AmlCaseManager.discloseCase`, which passes the disclosing officer
+    /// so the audit entry names them rather than the case manager.
+    function discloseRiskScore(bytes32 transactionId, address officer) external {
+        if (msg.sender != address(caseManager)) revert CallerNotCaseManager();
+        _audit(officer, transactionId);
+        FHE.makePubliclyDecryptable(_requireTransaction(transactionId).encryptedRiskScore);
+        emit DecryptionRequested(transactionId, true);
+    }
+
+    /// @notice Grants the caller an FHE ACL entry for EIP-712 user decryption: auditors may read a
+    /// transaction's encrypted fields, auditors and compliance officers a rule's thresholds.
+    /// @dev The reporter of a transaction is granted its fields when recording it.
+    function grantDecryptionAccess(bytes32 id, bool isTransaction) external {
+        if (isTransaction || !hasRole(COMPLIANCE_OFFICER_ROLE, msg.sender)) {
+            _checkRole(AUDITOR_ROLE);
+        }
+        _audit(id);
+        if (isTransaction) {
+            Transaction storage txn = _requireTransaction(id);
+            FHE.allow(txn.encryptedAmount, msg.sender);
+            FHE.allow(txn.encryptedRiskScore, msg.sender);
+            FHE.allow(txn.senderWatchlistHit, msg.sender);
+            FHE.allow(txn.receiverWatchlistHit, msg.sender);
+        } else {
+            RuleKind kind = _requireRule(id).kind;
+            if (kind == RuleKind.Composite) {
+                RuleNode[] storage nodes = ruleNodes[id];
+                for (uint256 i = 0; i < nodes.length; i++) {
+                    if (nodes[i].kind == NodeKind.Compare) {
+                        FHE.allow(nodes[i].encryptedThreshold, msg.sender);
+                    }
+                }
+            } else if (kind == RuleKind.Structuring) {
+                StructuringRule storage structuring = structuringRules[id];
+                FHE.allow(structuring.bandLower, msg.sender);
+                FHE.allow(structuring.bandUpper, msg.sender);
+                FHE.allow(structuring.countLimit, msg.sender);
+            } else {
+                RuleVersion[] storage versions = ruleVersions[id];
+                for (uint256 i = 0; i < versions.length; i++) {
+                    FHE.allow(versions[i].encryptedThreshold, msg.sender);
+                }
+            }
+        }
+        emit DecryptionAccessGranted(id, msg.sender, isTransaction);
+    }
+
+    /// @notice Lets `delegate` (e.g. a regulator) claim user-decryption access to the given transactions
+    /// until `expiresAt`; no ACL entry is issued until the delegate calls `claimDelegatedAccess`.
+    /// @dev Granting again replaces the expiry and clears a previous revocation.
+    function delegateAccess(
+        bytes32[] calldata ids,
+        address delegate,
+        uint64 expiresAt
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        if (delegate == address(0)) revert InvalidAccount();
+        if (expiresAt <= block.timestamp) revert InvalidDelegationExpiry();
+        if (ids.length == 0 || ids.length > MAX_PAGE_SIZE) revert InvalidBatchSize();
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            _requireTransaction(ids[i]);
+            _audit(ids[i]);
+            delegations[ids[i]][delegate] = Delegation({
+                expiresAt: expiresAt,
+                revoked: false,
+                grantedBy: msg.sender
+            });
+            emit DelegationGranted(ids[i], delegate, expiresAt, msg.sender);
+        }
+    }
+
+    /// @notice Grants the calling delegate ACL access to a transaction's amount and risk score while
+    /// its delegation is active.
+    /// @dev The grant is permanent: revoking the delegation or letting it expire afterwards does not
+    /// stop the delegate from decrypting these handles through the relayer. It is not a security boundary
+    /// for data already claimed, only for transactions the delegate has not claimed yet.
+    function claimDelegatedAccess(bytes32 transactionId) external {
+        if (!isDelegationActive(transactionId, msg.sender)) revert DelegationInactive(transactionId, msg.sender);
+        _audit(transactionId);
+        Transaction storage txn = transactions[transactionId];
+        FHE.allow(txn.encryptedAmount, msg.sender);
+        FHE.allow(txn.encryptedRiskScore, msg.sender);
+        emit DecryptionAccessGranted(transactionId, msg.sender, true);
+    }
+
+    function revokeDelegation(bytes32 transactionId, address delegate) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(transactionId);
+        Delegation storage delegation = delegations[transactionId][delegate];
+        if (delegation.expiresAt == 0) revert DelegationNotFound(transactionId, delegate);
+        delegation.revoked = true;
+        emit DelegationRevoked(transactionId, delegate, msg.sender);
+    }
+
+    function isDelegationActive(bytes32 transactionId, address delegate) public view returns (bool) {
+        Delegation storage delegation = delegations[transactionId][delegate];
+        return !delegation.revoked && block.timestamp < delegation.expiresAt;
+    }
+
+    function getDelegation(bytes32 transactionId, address delegate) external view returns (Delegation memory) {
+        return delegations[transactionId][delegate];
     }
 
     function verifyDecryption(
-        string calldata id,
+        bytes32 id,
         bytes memory abiEncodedClearValue,
         bytes memory decryptionProof,
         bool isTransaction
-    ) external {
+    ) external onlyRole(AUDITOR_ROLE) {
+        _audit(id);
         if (isTransaction) {
-            require(bytes(transactions[id].sender).length > 0, "Transaction does not exist");
-            require(!transactions[id].isVerified, "Transaction already verified");
+            Transaction storage txn = _requireTransaction(id);
+            if (txn.isVerified) revert AlreadyVerified(id);
 
-            bytes32[] memory cts = new bytes32[](1);
-            cts[0] = FHE.toBytes32(transactions[id].encryptedRiskScore);
-
-            FHE.checkSignatures(cts, abiEncodedClearValue, decryptionProof);
+            _checkDecryption(FHE.toBytes32(txn.encryptedRiskScore), abiEncodedClearValue, decryptionProof);
             uint32 decodedValue = abi.decode(abiEncodedClearValue, (uint32));
 
-            transactions[id].decryptedRiskScore = decodedValue;
-            transactions[id].isVerified = true;
+            txn.decryptedRiskScore = decodedValue;
+            txn.isVerified = true;
             emit DecryptionVerified(id, decodedValue);
         } else {
-            require(bytes(riskRules[id].ruleId).length > 0, "Risk rule does not exist");
-            require(!riskRules[id].isVerified, "Risk rule already verified");
-
-            bytes32[] memory cts = new bytes32[](1);
-            cts[0] = FHE.toBytes32(riskRules[id].encryptedThreshold);
+            RiskRule storage rule = _requireRuleOfKind(id, RuleKind.Threshold);
+            if (rule.isVerified) revert AlreadyVerified(id);
 
-            FHE.checkSignatures(cts, abiEncodedClearValue, decryptionProof);
+            _checkDecryption(FHE.toBytes32(rule.encryptedThreshold), abiEncodedClearValue, decryptionProof);
             uint32 decodedValue = abi.decode(abiEncodedClearValue, (uint32));
 
-            riskRules[id].decryptedThreshold = decodedValue;
-            riskRules[id].isVerified = true;
+            rule.decryptedThreshold = decodedValue;
+            rule.isVerified = true;
+            RuleVersion storage current = ruleVersions[id][rule.version - 1];
+            current.decryptedThreshold = decodedValue;
+            current.isVerified = true;
             emit DecryptionVerified(id, decodedValue);
         }
     }
 
     function scanTransaction(
-        string calldata transactionId,
-        string calldata ruleId
-    ) external {
-        require(bytes(transactions[transactionId].sender).length > 0, "Transaction does not exist");
-        require(bytes(riskRules[ruleId].ruleId).length > 0, "Risk rule does not exist");
-        require(transactions[transactionId].isVerified, "Transaction not verified");
-        require(riskRules[ruleId].isVerified, "Risk rule not verified");
-
-        if (transactions[transactionId].decryptedRiskScore > riskRules[ruleId].decryptedThreshold) {
+        bytes32 transactionId,
+        bytes32 ruleId
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(transactionId);
+        Transaction storage txn = _requireTransaction(transactionId);
+        RiskRule storage rule = _requireRule(ruleId);
+        if (!txn.isVerified) revert NotVerified(transactionId);
+        if (!rule.isVerified) revert NotVerified(ruleId);
+        if (!_isActive(rule)) {
+            emit ScanSkipped(transactionId, ruleId);
+            return;
+        }
+
+        if (txn.decryptedRiskScore > rule.decryptedThreshold) {
+            txn.isFlagged = true;
+            emit TransactionFlagged(transactionId, txn.decryptedRiskScore);
+            _openCase(transactionId);
+        }
+    }
+
+    /// @notice Evaluates a rule against the encrypted transaction data without decrypting either.
+    /// @dev Only the resulting `ebool` is made publicly decryptable; reveal it with `revealScanResult`.
+    /// A pair can be scanned again once the rule has a new version; the new result replaces the old one.
+    function scanTransactionEncrypted(
+        bytes32 transactionId,
+        bytes32 ruleId
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(transactionId);
+        Transaction storage txn = _requireTransaction(transactionId);
+        RiskRule storage rule = _requireRule(ruleId);
+        if (_isCurrentScan(scanResults[transactionId][ruleId], rule)) revert AlreadyScanned(transactionId, ruleId);
+        if (!_isActive(rule)) {
+            emit ScanSkipped(transactionId, ruleId);
+            return;
+        }
+
+        _scanEncrypted(txn, transactionId, rule);
+        emit EncryptedScanPerformed(transactionId, ruleId, rule.version);
+    }
+
+    /// @notice Evaluates up to `limit` rules from rule index `offset` on and folds the active ones into
+    /// the transaction's aggregate scan. A rule book too large for the HCU limit of one transaction is
+    /// covered page by page: `offset` 0 starts a new aggregate and every later page must start at its `nextRule`.
+    /// @dev Rules already scanned for this transaction at their current version contribute their
+    /// recorded flag instead of being evaluated again, so repeated calls only pick up newly added,
+    /// activated or updated rules.
+    /// `anyHit` is made publicly decryptable like per-rule flags; `hitCount` is only granted to the caller.
+    function scanAll(
+        bytes32 transactionId,
+        uint256 offset,
+        uint256 limit
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(transactionId);
+        Transaction storage txn = _requireTransaction(transactionId);
+
+        ebool anyHit;
+        euint32 hitCount;
+        uint32 rulesEvaluated;
+        uint32 rulesSkipped;
+        if (offset == 0) {
+            anyHit = FHE.asEbool(false);
+            hitCount = FHE.asEuint32(0);
+        } else {
+            AggregateScan storage previous = aggregateScans[transactionId];
+            if (offset != previous.nextRule) revert ScanAllOutOfOrder(transactionId, previous.nextRule);
+            (anyHit, hitCount, rulesEvaluated, rulesSkipped) = (
+                previous.anyHit,
+                previous.hitCount,
+                previous.rulesEvaluated,
+                previous.rulesSkipped
+            );
+        }
+
+        uint256 end = offset + _pageLength(ruleIds.length, offset, limit);
+        for (uint256 i = offset; i < end; i++) {
+            RiskRule storage rule = riskRules[ruleIds[i]];
+            if (!_isActive(rule)) {
+                rulesSkipped++;
+                continue;
+            }
+
+            ScanResult storage result = scanResults[transactionId][rule.ruleId];
+            ebool flag = _isCurrentScan(result, rule)
+                ? result.encryptedFlag
+                : _scanEncrypted(txn, transactionId, rule);
+            anyHit = FHE.or(anyHit, flag);
+            hitCount = FHE.add(hitCount, FHE.asEuint32(flag));
+            rulesEvaluated++;
+        }
+
+        FHE.allowThis(anyHit);
+        FHE.allow(anyHit, msg.sender);
+        FHE.makePubliclyDecryptable(anyHit);
+        FHE.allowThis(hitCount);
+        FHE.allow(hitCount, msg.sender);
+
+        aggregateScans[transactionId] = AggregateScan({
+            anyHit: anyHit,
+            hitCount: hitCount,
+            rulesEvaluated: rulesEvaluated,
+            rulesSkipped: rulesSkipped,
+            nextRule: uint32(end),
+            scannedAt: block.timestamp
+        });
+
+        emit AggregateScanPerformed(transactionId, rulesEvaluated, rulesSkipped);
+    }
+
+    function _scanEncrypted(
+        Transaction storage txn,
+        bytes32 transactionId,
+        RiskRule storage rule
+    ) private returns (ebool encryptedFlag) {
+        if (rule.kind == RuleKind.Composite) {
+            encryptedFlag = _evaluateComposite(txn, ruleNodes[rule.ruleId]);
+        } else if (rule.kind == RuleKind.Structuring) {
+            encryptedFlag = _evaluateStructuring(transactionId, rule.ruleId);
+            emit StructuringFlagComputed(transactionId, rule.ruleId, txn.sender);
+        } else {
+            encryptedFlag = FHE.gt(txn.encryptedRiskScore, rule.encryptedThreshold);
+        }
+        FHE.allowThis(encryptedFlag);
+        FHE.allow(encryptedFlag, msg.sender);
+        FHE.makePubliclyDecryptable(encryptedFlag);
+
+        scanResults[transactionId][rule.ruleId] = ScanResult({
+            encryptedFlag: encryptedFlag,
+            isScanned: true,
+            isRevealed: false,
+            isHit: false,
+            ruleVersion: rule.version
+        });
+    }
+
+    function revealScanResult(
+        bytes32 transactionId,
+        bytes32 ruleId,
+        bytes memory abiEncodedClearValue,
+        bytes memory decryptionProof
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(transactionId);
+        ScanResult storage result = scanResults[transactionId][ruleId];
+        if (!result.isScanned) revert NotScanned(transactionId, ruleId);
+        if (result.isRevealed) revert AlreadyRevealed(transactionId, ruleId);
+
+        _checkDecryption(FHE.toBytes32(result.encryptedFlag), abiEncodedClearValue, decryptionProof);
+        bool isHit = abi.decode(abiEncodedClearValue, (bool));
+
+        result.isRevealed = true;
+        result.isHit = isHit;
+        if (isHit) {
             transactions[transactionId].isFlagged = true;
-            emit TransactionFlagged(transactionId, transactions[transactionId].decryptedRiskScore);
+            _openCase(transactionId);
+        }
+        emit ScanResultRevealed(transactionId, ruleId, isHit);
+    }
+
+    /// @dev Reverts unless `decryptionProof` proves `abiEncodedClearValue` is the decryption of `handle`.
+    function _checkDecryption(
+        bytes32 handle,
+        bytes memory abiEncodedClearValue,
+        bytes memory decryptionProof
+    ) private {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = handle;
+        FHE.checkSignatures(cts, abiEncodedClearValue, decryptionProof);
+    }
+
+    function _isCurrentScan(ScanResult storage result, RiskRule storage rule) private view returns (bool) {
+        return result.isScanned && result.ruleVersion == rule.version;
+    }
+
+    function _requireTransaction(bytes32 transactionId) private view returns (Transaction storage txn) {
+        txn = transactions[transactionId];
+        if (!txn.exists) revert TransactionNotFound(transactionId);
+    }
+
+    function _requireRule(bytes32 ruleId) private view returns (RiskRule storage rule) {
+        rule = riskRules[ruleId];
+        if (!rule.exists) revert RuleNotFound(ruleId);
+    }
+
+    function _requireRuleOfKind(bytes32 ruleId, RuleKind kind) private view returns (RiskRule storage rule) {
+        rule = _requireRule(ruleId);
+        if (rule.kind != kind) revert UnexpectedRuleKind(ruleId, rule.kind);
+    }
+
+    function _requireNewRule(bytes32 ruleId) private view {
+        if (ruleId == bytes32(0)) revert InvalidRuleId();
+        if (riskRules[ruleId].exists) revert RuleAlreadyExists(ruleId);
+    }
+
+    function _registerRule(bytes32 ruleId, RuleKind kind, euint32 encryptedThreshold) private {
+        RiskRule storage rule = riskRules[ruleId];
+        rule.ruleId = ruleId;
+        rule.kind = kind;
+        rule.exists = true;
+        rule.enabled = true;
+        ruleIds.push(ruleId);
+        _pushRuleVersion(ruleId, encryptedThreshold);
+    }
+
+    function _isActive(RiskRule storage rule) private view returns (bool) {
+        return
+            rule.enabled &&
+            block.timestamp >= rule.activeFrom &&
+            (rule.activeUntil == 0 || block.timestamp < rule.activeUntil);
+    }
+
+    function _pushRuleVersion(bytes32 ruleId, euint32 encryptedThreshold) private returns (uint32 version) {
+        RiskRule storage rule = riskRules[ruleId];
+        version = ++rule.version;
+        rule.encryptedThreshold = encryptedThreshold;
+        rule.decryptedThreshold = 0;
+        rule.isVerified = false;
+        ruleVersions[ruleId].push(
+            RuleVersion({
+                version: version,
+                encryptedThreshold: encryptedThreshold,
+                decryptedThreshold: 0,
+                isVerified: false,
+                createdAt: block.timestamp,
+                createdBy: msg.sender
+            })
+        );
+    }
+
+    function _openCase(bytes32 transactionId) private {
+        if (address(caseManager) != address(0)) {
+            caseManager.openCase(transactionId);
+        }
+    }
+
+    function _evaluateComposite(
+        Transaction storage txn,
+        RuleNode[] storage nodes
+    ) private returns (ebool) {
+        ebool[] memory results = new ebool[](nodes.length);
+        for (uint256 i = 0; i < nodes.length; i++) {
+            RuleNode storage node = nodes[i];
+            if (node.kind == NodeKind.And) {
+                results[i] = FHE.and(results[node.left], results[node.right]);
+            } else if (node.kind == NodeKind.Or) {
+                results[i] = FHE.or(results[node.left], results[node.right]);
+            } else if (node.kind == NodeKind.Flag) {
+                results[i] = node.field == RuleField.SenderWatchlistHit
+                    ? txn.senderWatchlistHit
+                    : txn.receiverWatchlistHit;
+            } else {
+                results[i] = _compare(_fieldValue(txn, node.field, node.window), node.op, node.encryptedThreshold);
+            }
+        }
+        return results[nodes.length - 1];
+    }
+
+    /// @dev Transactions recorded before the rule was added have no count and never hit.
+    function _evaluateStructuring(bytes32 transactionId, bytes32 ruleId) private returns (ebool) {
+        euint32 count = structuringCounts[transactionId][ruleId];
+        if (!FHE.isInitialized(count)) return FHE.asEbool(false);
+        return FHE.ge(count, structuringRules[ruleId].countLimit);
+    }
+
+    function _countStructuring(bytes32 transactionId, address sender, euint64 amount) private {
+        for (uint256 i = 0; i < structuringRuleIds.length; i++) {
+            bytes32 ruleId = structuringRuleIds[i];
+            StructuringRule storage rule = structuringRules[ruleId];
+            StructuringCounter storage counter = structuringCounters[ruleId][sender];
+
+            ebool inBand = FHE.and(FHE.ge(amount, rule.bandLower), FHE.le(amount, rule.bandUpper));
+            euint32 increment = FHE.asEuint32(inBand);
+
+            if (!FHE.isInitialized(counter.count) || block.timestamp >= counter.windowStart + rule.windowSeconds) {
+                counter.count = increment;
+                counter.windowStart = block.timestamp;
+            } else {
+                counter.count = FHE.add(counter.count, increment);
+            }
+            FHE.allowThis(counter.count);
+            structuringCounts[transactionId][ruleId] = counter.count;
+        }
+    }
+
+    /// @dev Velocity fields read the account's counters as of scan time, not as of recording.
+    function _fieldValue(Transaction storage txn, RuleField field, uint8 window) private returns (euint64) {
+        if (field == RuleField.Amount) {
+            return txn.encryptedAmount;
+        }
+        if (field == RuleField.SenderVelocitySum || field == RuleField.SenderVelocityCount) {
+            return _velocity(txn.sender, window, field == RuleField.SenderVelocitySum);
+        }
+        if (field == RuleField.ReceiverVelocitySum || field == RuleField.ReceiverVelocityCount) {
+            return _velocity(txn.receiver, window, field == RuleField.ReceiverVelocitySum);
+        }
+        return FHE.asEuint64(txn.encryptedRiskScore);
+    }
+
+    /// @dev Sum (or count) of the account's live buckets in `window`; stale buckets count as zero.
+    function _velocity(address account, uint8 window, bool isSum) private returns (euint64 total) {
+        total = FHE.asEuint64(0);
+        if (window >= velocityWindows.length) return total;
+        uint256 current = _velocityBucketIndex(window);
+        VelocityBucket[VELOCITY_BUCKETS] storage buckets = velocityBuckets[account][window];
+        for (uint256 i = 0; i < VELOCITY_BUCKETS; i++) {
+            if (_isLiveBucket(buckets[i], current)) {
+                total = FHE.add(total, isSum ? buckets[i].sum : FHE.asEuint64(buckets[i].count));
+            }
+        }
+    }
+
+    function _velocityBucketIndex(uint256 window) private view returns (uint256) {
+        return block.timestamp / (velocityWindows[window] / VELOCITY_BUCKETS);
+    }
+
+    function _isLiveBucket(VelocityBucket storage bucket, uint256 current) private view returns (bool) {
+        return bucket.epoch == velocityEpoch && bucket.index + VELOCITY_BUCKETS > current;
+    }
+
+    function _updateVelocity(address account, euint64 amount) private {
+        for (uint256 i = 0; i < velocityWindows.length; i++) {
+            uint256 current = _velocityBucketIndex(i);
+            VelocityBucket storage bucket = velocityBuckets[account][i][current % VELOCITY_BUCKETS];
+            if (bucket.epoch != velocityEpoch || bucket.index != current) {
+                bucket.sum = amount;
+                bucket.count = FHE.asEuint32(1);
+                bucket.index = uint64(current);
+                bucket.epoch = uint64(velocityEpoch);
+            } else {
+                bucket.sum = FHE.add(bucket.sum, amount);
+                bucket.count = FHE.add(bucket.count, 1);
+            }
+            FHE.allowThis(bucket.sum);
+            FHE.allowThis(bucket.count);
+        }
+    }
+
+    /// @dev Screens an address against the encrypted watchlist with `FHE.eq`; the result stays encrypted.
+    function _watchlistHit(address account) private returns (ebool hit) {
+        hit = FHE.asEbool(false);
+        if (watchlist.length > 0) {
+            euint64 key = FHE.asEuint64(watchlistKey(account));
+            for (uint256 i = 0; i < watchlist.length; i++) {
+                hit = FHE.or(hit, FHE.eq(watchlist[i], key));
+            }
         }
+        FHE.allowThis(hit);
+    }
+
+    /// @notice Cleartext key a watchlisted address must be encrypted as before `addWatchlistEntry`.
+    function watchlistKey(address account) public pure returns (uint64) {
+        return uint64(uint256(keccak256(abi.encodePacked(account))));
+    }
+
+    function addWatchlistEntry(
+        externalEuint64 encryptedEntityKey,
+        bytes calldata inputProof
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) returns (uint256 entryId) {
+        if (watchlist.length >= MAX_WATCHLIST_ENTRIES) revert WatchlistFull();
+
+        euint64 entityKey = FHE.fromExternal(encryptedEntityKey, inputProof);
+        if (!FHE.isInitialized(entityKey)) revert InvalidEncryptedInput();
+        FHE.allowThis(entityKey);
+
+        entryId = ++nextWatchlistEntryId;
+        _audit(bytes32(entryId));
+        watchlist.push(entityKey);
+        watchlistEntryIds.push(entryId);
+        watchlistPositions[entryId] = watchlist.length;
+        emit WatchlistEntryAdded(entryId, msg.sender);
+    }
+
+    function removeWatchlistEntry(uint256 entryId) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(bytes32(entryId));
+        uint256 position = watchlistPositions[entryId];
+        if (position == 0) revert WatchlistEntryNotFound(entryId);
+
+        uint256 lastIndex = watchlist.length - 1;
+        if (position - 1 != lastIndex) {
+            watchlist[position - 1] = watchlist[lastIndex];
+            watchlistEntryIds[position - 1] = watchlistEntryIds[lastIndex];
+            watchlistPositions[watchlistEntryIds[lastIndex]] = position;
+        }
+        watchlist.pop();
+        watchlistEntryIds.pop();
+        delete watchlistPositions[entryId];
+        emit WatchlistEntryRemoved(entryId, msg.sender);
+    }
+
+    /// @notice Grants the calling compliance officer ACL access to an account's live velocity buckets.
+    /// @dev Bucket handles change on every update, so access must be re-granted after new transactions.
+    function grantVelocityAccess(address account) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        _audit(bytes32(uint256(uint160(account))));
+        for (uint256 i = 0; i < velocityWindows.length; i++) {
+            uint256 current = _velocityBucketIndex(i);
+            for (uint256 j = 0; j < VELOCITY_BUCKETS; j++) {
+                VelocityBucket storage bucket = velocityBuckets[account][i][j];
+                if (_isLiveBucket(bucket, current)) {
+                    FHE.allow(bucket.sum, msg.sender);
+                    FHE.allow(bucket.count, msg.sender);
+                }
+            }
+        }
+        emit VelocityAccessGranted(account, msg.sender);
+    }
+
+    function _compare(euint64 value, CompareOp op, euint64 threshold) private returns (ebool) {
+        if (op == CompareOp.GreaterOrEqual) return FHE.ge(value, threshold);
+        if (op == CompareOp.LessThan) return FHE.lt(value, threshold);
+        if (op == CompareOp.LessOrEqual) return FHE.le(value, threshold);
+        return FHE.gt(value, threshold);
     }
 
-    function getTransaction(string calldata transactionId)
+    function getTransaction(bytes32 transactionId)
         external
         view
         returns (
             address sender,
             address receiver,
-            uint256 amount,
             uint256 timestamp,
             uint32 decryptedRiskScore,
             bool isFlagged,
             bool isVerified
         )
     {
-        require(bytes(transactions[transactionId].sender).length > 0, "Transaction does not exist");
-        Transaction storage txn = transactions[transactionId];
+        Transaction storage txn = _requireTransaction(transactionId);
         return (
             txn.sender,
             txn.receiver,
-            txn.amount,
             txn.timestamp,
             txn.decryptedRiskScore,
             txn.isFlagged,
@@ -167,26 +1295,181 @@ contract AmlScanFHE is ZamaEthereumConfig {
         );
     }
 
-    function getRiskRule(string calldata ruleId)
+    function getRiskRule(bytes32 ruleId)
         external
         view
         returns (
-            string memory ruleIdValue,
+            bytes32 ruleIdValue,
             uint32 decryptedThreshold,
-            bool isVerified
+            bool isVerified,
+            RuleKind kind,
+            uint256 nodeCount,
+            uint32 version
         )
     {
-        require(bytes(riskRules[ruleId].ruleId).length > 0, "Risk rule does not exist");
-        RiskRule storage rule = riskRules[ruleId];
-        return (rule.ruleId, rule.decryptedThreshold, rule.isVerified);
+        RiskRule storage rule = _requireRule(ruleId);
+        return (
+            rule.ruleId,
+            rule.decryptedThreshold,
+            rule.isVerified,
+            rule.kind,
+            ruleNodes[ruleId].length,
+            rule.version
+        );
+    }
+
+    /// @notice Returns every version of a rule, oldest first; the last entry is the one scans use.
+    function getRuleVersions(bytes32 ruleId) external view returns (RuleVersion[] memory) {
+        _requireRule(ruleId);
+        return ruleVersions[ruleId];
+    }
+
+    function getRuleNodes(bytes32 ruleId) external view returns (RuleNode[] memory) {
+        _requireRule(ruleId);
+        return ruleNodes[ruleId];
+    }
+
+    /// @notice Returns the encrypted amount and risk score handles for user decryption by ACL holders.
+    function getEncryptedHandles(bytes32 transactionId)
+        external
+        view
+        returns (euint64 encryptedAmount, euint32 encryptedRiskScore)
+    {
+        Transaction storage txn = _requireTransaction(transactionId);
+        return (txn.encryptedAmount, txn.encryptedRiskScore);
+    }
+
+    function getWatchlistHits(bytes32 transactionId)
+        external
+        view
+        returns (ebool senderWatchlistHit, ebool receiverWatchlistHit)
+    {
+        Transaction storage txn = _requireTransaction(transactionId);
+        return (txn.senderWatchlistHit, txn.receiverWatchlistHit);
     }
 
-    function getAllTransactionIds() external view returns (string[] memory) {
-        return transactionIds;
+    function getWatchlistEntryIds() external view returns (uint256[] memory) {
+        return watchlistEntryIds;
     }
 
-    function getAllRuleIds() external view returns (string[] memory) {
-        return ruleIds;
+    function getStructuringRule(bytes32 ruleId)
+        external
+        view
+        returns (euint64 bandLower, euint64 bandUpper, euint32 countLimit, uint256 windowSeconds)
+    {
+        _requireRuleOfKind(ruleId, RuleKind.Structuring);
+        StructuringRule storage rule = structuringRules[ruleId];
+        return (rule.bandLower, rule.bandUpper, rule.countLimit, rule.windowSeconds);
+    }
+
+    /// @notice The account's buckets for velocity window `windowIndex`; buckets that no longer count
+    /// towards the window are returned empty, so the window's sum and count are the totals over the rest.
+    function getVelocityBuckets(address account, uint256 windowIndex)
+        external
+        view
+        returns (VelocityBucket[VELOCITY_BUCKETS] memory live)
+    {
+        if (windowIndex >= velocityWindows.length) revert InvalidVelocityWindow();
+        uint256 current = _velocityBucketIndex(windowIndex);
+        VelocityBucket[VELOCITY_BUCKETS] storage buckets = velocityBuckets[account][windowIndex];
+        for (uint256 i = 0; i < VELOCITY_BUCKETS; i++) {
+            if (_isLiveBucket(buckets[i], current)) live[i] = buckets[i];
+        }
+    }
+
+    function getRiskWeights() external view returns (euint32[RISK_FACTOR_COUNT] memory) {
+        return riskWeights;
+    }
+
+    function getVelocityWindows() external view returns (uint256[] memory) {
+        return velocityWindows;
+    }
+
+    function getScanResult(bytes32 transactionId, bytes32 ruleId)
+        external
+        view
+        returns (
+            ebool encryptedFlag,
+            bool isScanned,
+            bool isRevealed,
+            bool isHit,
+            uint32 ruleVersion
+        )
+    {
+        ScanResult storage result = scanResults[transactionId][ruleId];
+        return (result.encryptedFlag, result.isScanned, result.isRevealed, result.isHit, result.ruleVersion);
+    }
+
+    function getAggregateScan(bytes32 transactionId) external view returns (AggregateScan memory) {
+        return aggregateScans[transactionId];
+    }
+
+    function getTransactionCount() external view returns (uint256) {
+        return transactionIds.length;
+    }
+
+    function getRuleCount() external view returns (uint256) {
+        return ruleIds.length;
+    }
+
+    /// @notice Returns up to `limit` transactions starting at `offset`, in recording order.
+    function getTransactions(uint256 offset, uint256 limit)
+        external
+        view
+        returns (TransactionView[] memory page, uint256 total)
+    {
+        total = transactionIds.length;
+        uint256 count = _pageLength(total, offset, limit);
+        page = new TransactionView[](count);
+        for (uint256 i = 0; i < count; i++) {
+            bytes32 id = transactionIds[offset + i];
+            Transaction storage txn = transactions[id];
+            page[i] = TransactionView({
+                id: id,
+                sender: txn.sender,
+                receiver: txn.receiver,
+                timestamp: txn.timestamp,
+                decryptedRiskScore: txn.decryptedRiskScore,
+                isFlagged: txn.isFlagged,
+                isVerified: txn.isVerified
+            });
+        }
+    }
+
+    /// @notice Returns up to `limit` rules starting at `offset`, in registration order.
+    function getRiskRules(uint256 offset, uint256 limit)
+        external
+        view
+        returns (RuleView[] memory page, uint256 total)
+    {
+        total = ruleIds.length;
+        uint256 count = _pageLength(total, offset, limit);
+        page = new RuleView[](count);
+        for (uint256 i = 0; i < count; i++) {
+            bytes32 id = ruleIds[offset + i];
+            RiskRule storage rule = riskRules[id];
+            page[i] = RuleView({
+                id: id,
+                kind: rule.kind,
+                decryptedThreshold: rule.decryptedThreshold,
+                isVerified: rule.isVerified,
+                nodeCount: ruleNodes[id].length,
+                version: rule.version,
+                enabled: rule.enabled,
+                activeFrom: rule.activeFrom,
+                activeUntil: rule.activeUntil,
+                isActive: _isActive(rule)
+            });
+        }
+    }
+
+    function _pageLength(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= total) {
+            return 0;
+        }
+        uint256 remaining = total - offset;
+        uint256 count = limit < remaining ? limit : remaining;
+        return count < MAX_PAGE_SIZE ? count : MAX_PAGE_SIZE;
     }
 
     function isAvailable() public pure returns (bool) {
@@ -0,0 +1,5 @@
+pragma solidity ^0.8.24;
+
+interface IAmlAuditLog {
+    function append(address actor, bytes4 action, bytes32 targetId) external returns (bytes32 entryHash);
+}
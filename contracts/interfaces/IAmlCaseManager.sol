@@ -0,0 +1,5 @@
+pragma solidity ^0.8.24;
+
+interface IAmlCaseManager {
+    function openCase(bytes32 transactionId) external returns (uint256 caseId);
+}
@@ -0,0 +1,5 @@
+pragma solidity ^0.8.24;
+
+interface IAmlRoleRegistry {
+    function hasRole(bytes32 role, address account) external view returns (bool);
+}
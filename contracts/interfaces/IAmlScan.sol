@@ -0,0 +1,15 @@
+pragma solidity ^0.8.24;
+
+import { euint32, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { IAmlAuditLog } from "./IAmlAuditLog.sol";
+import { IAmlRoleRegistry } from "./IAmlRoleRegistry.sol";
+
+interface IAmlScan is IAmlRoleRegistry {
+    function getEncryptedHandles(
+        bytes32 transactionId
+    ) external view returns (euint64 encryptedAmount, euint32 encryptedRiskScore);
+
+    function discloseRiskScore(bytes32 transactionId, address officer) external;
+
+    function auditLog() external view returns (IAmlAuditLog);
+}
@@ -334,12 +334,46 @@ async function main() {
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalFHEAdapterFactory = await hardhatEthers.getContractFactory("UniversalFHEAdapter", wallet);
-    const factory = await UniversalFHEAdapterFactory.deploy();
+    const AmlScanFHEFactory = await hardhatEthers.getContractFactory("AmlScanFHE", wallet);
+    const factory = await AmlScanFHEFactory.deploy();
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalFHEAdapter contract deployed at:", deployedAddress);
+    console.log("AmlScanFHE contract deployed at:", deployedAddress);
+
+    const AmlCaseManagerFactory = await hardhatEthers.getContractFactory("AmlCaseManager", wallet);
+    const caseManager = await AmlCaseManagerFactory.deploy(deployedAddress);
+    await caseManager.waitForDeployment();
+
+    const caseManagerAddress = (caseManager as any).target || (caseManager as any).address;
+    console.log("AmlCaseManager contract deployed at:", caseManagerAddress);
+
+    const setCaseManagerTx = await (factory as any).setCaseManager(caseManagerAddress);
+    await setCaseManagerTx.wait();
+
+    const AmlRiskTiersFactory = await hardhatEthers.getContractFactory("AmlRiskTiers", wallet);
+    const riskTiers = await AmlRiskTiersFactory.deploy(deployedAddress);
+    await riskTiers.waitForDeployment();
+
+    const riskTiersAddress = (riskTiers as any).target || (riskTiers as any).address;
+    console.log("AmlRiskTiers contract deployed at:", riskTiersAddress);
+
+    const setRiskTierContractTx = await (factory as any).setRiskTierContract(riskTiersAddress);
+    await setRiskTierContractTx.wait();
+
+    const AmlAuditLogFactory = await hardhatEthers.getContractFactory("AmlAuditLog", wallet);
+    const auditLog = await AmlAuditLogFactory.deploy(deployedAddress);
+    await auditLog.waitForDeployment();
+
+    const auditLogAddress = (auditLog as any).target || (auditLog as any).address;
+    console.log("AmlAuditLog contract deployed at:", auditLogAddress);
+
+    for (const writer of [caseManagerAddress, riskTiersAddress]) {
+      const setWriterTx = await (auditLog as any).setWriter(writer, true);
+      await setWriterTx.wait();
+    }
+    const setAuditLogTx = await (factory as any).setAuditLog(auditLogAddress);
+    await setAuditLogTx.wait();
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -361,6 +395,9 @@ async function main() {
       const config = {
         network: rpc,
         contractAddress: deployedAddress,
+        caseManagerAddress,
+        riskTiersAddress,
+        auditLogAddress,
         deployer: wallet.address,
       };
       fs.writeFileSync(
@@ -369,24 +406,31 @@ async function main() {
       );
       console.log("Wrote frontend config: frontend/web/src/config.json");
 
-      try {
-        const artifactPath = path.join(
-          __dirname,
-          "..",
-          "artifacts",
-          "contracts",
-          "UniversalFHEAdapter.sol",
-          "UniversalFHEAdapter.json"
-        );
-        const targetAbiPath = path.join(frontendConfigDir, "abi");
-        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalFHEAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalFHEAdapter.json");
-      } catch (e) {
-        console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalFHEAdapter.json manually to frontend/web/src/abi/UniversalFHEAdapter.json",
-          e
-        );
+      for (const [sourceName, contractName] of [
+        ["AmlScan_FHE.sol", "AmlScanFHE"],
+        ["AmlCaseManager.sol", "AmlCaseManager"],
+        ["AmlRiskTiers.sol", "AmlRiskTiers"],
+        ["AmlAuditLog.sol", "AmlAuditLog"],
+      ]) {
+        try {
+          const artifactPath = path.join(
+            __dirname,
+            "..",
+            "artifacts",
+            "contracts",
+            sourceName,
+            `${contractName}.json`
+          );
+          const targetAbiPath = path.join(frontendConfigDir, "abi");
+          if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
+          fs.copyFileSync(artifactPath, path.join(targetAbiPath, `${contractName}.json`));
+          console.log(`Copied ABI to frontend/web/src/abi/${contractName}.json`);
+        } catch (e) {
+          console.warn(
+            `Failed to copy ABI automatically. Please copy artifacts/.../${contractName}.json manually to frontend/web/src/abi/${contractName}.json`,
+            e
+          );
+        }
       }
     }
   } catch (error) {
@@ -3,7 +3,7 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { publicDecrypt } from '../core/index.js';
 
 export function useDecrypt() {
   const [isDecrypting, setIsDecrypting] = useState(false);
@@ -18,7 +18,7 @@ export function useDecrypt() {
     setError('');
     
     try {
-      const decryptionResult = await publicDecryptV09(handles);
+      const decryptionResult = await publicDecrypt(handles);
       
       const tx = await verifyFunction(
         decryptionResult.abiEncodedClearValues,
@@ -0,0 +1,67 @@
+/**
+ * Wagmi-like hook for a reusable user-decryption session
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { ethers } from 'ethers';
+import { DecryptionSession } from '../core/index.js';
+import type { DecryptionSessionOptions } from '../core/index.js';
+
+/**
+ * Sessions this close to expiry are re-signed before use, so a decryption never races the expiry
+ */
+const REFRESH_MARGIN_SECONDS = 300;
+
+export function useDecryptionSession(options: DecryptionSessionOptions) {
+  const sessionRef = useRef<DecryptionSession | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [error, setError] = useState<string>('');
+
+  /**
+   * Return a live session for `signer`, opening or re-signing one when needed
+   */
+  const getSession = useCallback(async (signer: ethers.Signer): Promise<DecryptionSession> => {
+    setError('');
+    try {
+      const current = sessionRef.current;
+      const userAddress = await signer.getAddress();
+      const isReusable =
+        current !== null &&
+        current.userAddress === userAddress &&
+        optionsRef.current.contractAddresses.every(address => current.covers(address));
+
+      if (isReusable && !current.isExpired(REFRESH_MARGIN_SECONDS)) {
+        return current;
+      }
+      if (isReusable) {
+        await current.refresh();
+        setExpiresAt(current.expiresAt);
+        return current;
+      }
+
+      const session = await DecryptionSession.open(signer, optionsRef.current);
+      sessionRef.current = session;
+      setExpiresAt(session.expiresAt);
+      return session;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open decryption session');
+      throw err;
+    }
+  }, []);
+
+  const clear = useCallback(async () => {
+    await sessionRef.current?.clear();
+    sessionRef.current = null;
+    setExpiresAt(null);
+  }, []);
+
+  return {
+    getSession,
+    clear,
+    expiresAt,
+    hasSession: expiresAt !== null,
+    error,
+  };
+}
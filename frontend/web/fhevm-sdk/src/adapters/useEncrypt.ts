@@ -3,18 +3,24 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { createEncryptedInput, createEncryptedInputs } from '../core/index.js';
+import type { EncryptedBitSize, EncryptedInputValue } from '../core/index.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
   const [error, setError] = useState<string>('');
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
+  const encrypt = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    value: number | bigint,
+    bits: EncryptedBitSize = 32
+  ) => {
     setIsEncrypting(true);
     setError('');
     
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
+      const result = await createEncryptedInput(contractAddress, userAddress, value, bits);
       return result;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Encryption failed');
@@ -24,8 +30,27 @@ export function useEncrypt() {
     }
   }, []);
 
+  const encryptMany = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    values: EncryptedInputValue[]
+  ) => {
+    setIsEncrypting(true);
+    setError('');
+
+    try {
+      return await createEncryptedInputs(contractAddress, userAddress, values);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Encryption failed');
+      throw err;
+    } finally {
+      setIsEncrypting(false);
+    }
+  }, []);
+
   return {
     encrypt,
+    encryptMany,
     isEncrypting,
     error,
   };
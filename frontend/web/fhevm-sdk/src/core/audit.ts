@@ -0,0 +1,100 @@
+/**
+ * Audit log verification
+ * Loads the hash-chained entries of AmlAuditLog and recomputes the chain to detect tampering.
+ */
+
+import { ethers } from 'ethers';
+import { fetchAllPages } from './contracts.js';
+
+export interface AuditEntry {
+  index: number;
+  source: string;
+  actor: string;
+  action: string;
+  targetId: string;
+  timestamp: number;
+  entryHash: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entryCount: number;
+  headHash: string;
+  /** Index of the first entry whose stored hash does not match the recomputed one */
+  firstInvalidIndex: number | null;
+}
+
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+/**
+ * keccak256(abi.encode(prevHash, source, actor, action, targetId, timestamp)), as computed on-chain
+ */
+export function computeAuditEntryHash(prevHash: string, entry: Omit<AuditEntry, 'index' | 'entryHash'>): string {
+  return ethers.keccak256(
+    abiCoder.encode(
+      ['bytes32', 'address', 'address', 'bytes4', 'bytes32', 'uint64'],
+      [prevHash, entry.source, entry.actor, entry.action, entry.targetId, entry.timestamp]
+    )
+  );
+}
+
+/**
+ * Recompute the chain from the first entry; an empty log is valid with a zero head hash
+ */
+export function verifyAuditChain(entries: AuditEntry[]): AuditChainVerification {
+  let prevHash = ethers.ZeroHash;
+  for (let i = 0; i < entries.length; i++) {
+    if (computeAuditEntryHash(prevHash, entries[i]) !== entries[i].entryHash) {
+      return { valid: false, entryCount: entries.length, headHash: prevHash, firstInvalidIndex: i };
+    }
+    prevHash = entries[i].entryHash;
+  }
+  return { valid: true, entryCount: entries.length, headHash: prevHash, firstInvalidIndex: null };
+}
+
+/**
+ * Load every entry of an AmlAuditLog contract, oldest first
+ */
+export async function loadAuditLog(auditContract: ethers.Contract): Promise<AuditEntry[]> {
+  const rawEntries = await fetchAllPages<any>(async (offset, limit) => {
+    const [page, total] = await auditContract.getEntries(offset, limit);
+    return [[...page], total];
+  });
+
+  return rawEntries.map((entry, index) => ({
+    index,
+    source: entry.source,
+    actor: entry.actor,
+    action: entry.action,
+    targetId: entry.targetId,
+    timestamp: Number(entry.timestamp),
+    entryHash: entry.entryHash
+  }));
+}
+
+/**
+ * Load and verify the full log, also checking that the recomputed head matches the contract's `headHash`
+ */
+export async function verifyAuditLog(
+  auditContract: ethers.Contract
+): Promise<AuditChainVerification & { entries: AuditEntry[] }> {
+  const entries = await loadAuditLog(auditContract);
+  const verification = verifyAuditChain(entries);
+  const onChainHead: string = await auditContract.headHash();
+  return {
+    ...verification,
+    valid: verification.valid && verification.headHash === onChainHead,
+    entries
+  };
+}
+
+/**
+ * Resolve an entry's action selector to a function name using the ABIs of the contracts that write to the log
+ */
+export function describeAuditAction(action: string, interfaces: ethers.Interface[]): string {
+  for (const iface of interfaces) {
+    const fragment = iface.getFunction(action);
+    if (fragment) return fragment.name;
+  }
+  return action;
+}
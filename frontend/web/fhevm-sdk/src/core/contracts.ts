@@ -4,7 +4,12 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { buildEncryptedInput, createEncryptedInput } from './fhevm.js';
+import type { EncryptedBitSize, EncryptedInput, EncryptedInputBundle } from './fhevm.js';
+
+function isEncryptedInputBundle(params: EncryptedInput | EncryptedInputBundle): params is EncryptedInputBundle {
+  return Array.isArray((params as EncryptedInputBundle).handles);
+}
 
 export class FhevmContract {
   private contract: ethers.Contract;
@@ -17,12 +22,18 @@ export class FhevmContract {
 
   /**
    * Encrypt and call contract function
+   * Accepts a single encrypted value from createEncryptedInput, or an EncryptedInputBundle from
+   * buildEncryptedInput(...).encrypt() whose handles are passed in order before the shared proof.
    */
   async encryptAndCall(
     functionName: string,
-    encryptedParams: any,
+    encryptedParams: EncryptedInput | EncryptedInputBundle,
     ...additionalParams: any[]
   ): Promise<ethers.ContractTransactionResponse> {
+    if (isEncryptedInputBundle(encryptedParams)) {
+      const handles = encryptedParams.handles.map(({ handle }) => handle);
+      return this.contract[functionName](...handles, encryptedParams.proof, ...additionalParams);
+    }
     return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
   }
 
@@ -31,7 +42,7 @@ export class FhevmContract {
    */
   async encryptAndCallAndWait(
     functionName: string,
-    encryptedParams: any,
+    encryptedParams: EncryptedInput | EncryptedInputBundle,
     ...additionalParams: any[]
   ): Promise<ethers.TransactionReceipt> {
     const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
@@ -45,9 +56,39 @@ export class FhevmContract {
   /**
    * Create encrypted input for contract
    */
-  async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+  async createEncryptedInput(userAddress: string, value: number | bigint, bits: EncryptedBitSize = 32) {
+    return createEncryptedInput(this.address, userAddress, value, bits);
+  }
+
+  /**
+   * Start a typed multi-value encrypted input for this contract
+   */
+  buildEncryptedInput(userAddress: string) {
+    return buildEncryptedInput(this.address, userAddress);
   }
 }
 
+/**
+ * Default page size for paginated contract views (matches AmlScanFHE.MAX_PAGE_SIZE)
+ */
+export const DEFAULT_PAGE_SIZE = 100;
 
+/**
+ * Walk a paginated `(offset, limit) => (page, total)` view until every entry is loaded.
+ * Advances by the rows actually returned, since the contract may cap a page below `pageSize`.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (offset: number, limit: number) => Promise<[T[], bigint | number]>,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<T[]> {
+  const items: T[] = [];
+  let offset = 0;
+  for (;;) {
+    const [page, total] = await fetchPage(offset, pageSize);
+    items.push(...page);
+    offset += page.length;
+    if (page.length === 0 || offset >= Number(total)) {
+      return items;
+    }
+  }
+}
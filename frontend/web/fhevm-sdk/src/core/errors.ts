@@ -0,0 +1,144 @@
+/**
+ * SDK error types
+ * Every error the SDK raises on purpose extends SdkError, so callers can branch with `instanceof`
+ * instead of matching on messages.
+ */
+
+import { ethers } from 'ethers';
+
+export class SdkError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'SdkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * initializeFheInstance() has not completed yet
+ */
+export class NotInitializedError extends SdkError {
+  constructor() {
+    super('FHE instance not initialized. Call initializeFheInstance() first.');
+    this.name = 'NotInitializedError';
+  }
+}
+
+/**
+ * The relayer answered, but not in the shape the SDK expects
+ */
+export class InvalidRelayerResponseError extends SdkError {
+  readonly response: unknown;
+
+  constructor(message: string, response: unknown) {
+    super(`Invalid relayer response: ${message}`);
+    this.name = 'InvalidRelayerResponseError';
+    this.response = response;
+  }
+}
+
+/**
+ * The relayer or gateway could not be reached
+ */
+export class RelayerUnavailableError extends SdkError {
+  constructor(cause?: unknown) {
+    super('Decryption service is temporarily unavailable. Please try again later.', cause);
+    this.name = 'RelayerUnavailableError';
+  }
+}
+
+/**
+ * The wallet owner declined to sign
+ */
+export class UserRejectedError extends SdkError {
+  constructor(cause?: unknown) {
+    super('Request rejected by user', cause);
+    this.name = 'UserRejectedError';
+  }
+}
+
+/**
+ * The ACL does not let the user (or the contract) decrypt a handle; an ACL grant is needed first
+ */
+export class AccessDeniedError extends SdkError {
+  readonly handle?: string;
+
+  constructor(handle?: string, cause?: unknown) {
+    super(handle ? `Not authorized to decrypt handle ${handle}` : 'Not authorized to decrypt', cause);
+    this.name = 'AccessDeniedError';
+    this.handle = handle;
+  }
+}
+
+/**
+ * Thrown when a delegated grant has passed its expiry; ACL entries outlive it, so the SDK refuses to decrypt
+ */
+export class DelegationExpiredError extends SdkError {
+  readonly transactionId: string;
+  readonly expiresAt: number;
+
+  constructor(transactionId: string, expiresAt: number) {
+    super(`Delegated access to transaction ${transactionId} expired at ${new Date(expiresAt * 1000).toISOString()}`);
+    this.name = 'DelegationExpiredError';
+    this.transactionId = transactionId;
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * Thrown when decrypting with a session whose signature is no longer valid; call refresh() and retry
+ */
+export class DecryptionSessionExpiredError extends SdkError {
+  readonly expiresAt: number;
+
+  constructor(expiresAt: number) {
+    super(`Decryption session expired at ${new Date(expiresAt * 1000).toISOString()}`);
+    this.name = 'DecryptionSessionExpiredError';
+    this.expiresAt = expiresAt;
+  }
+}
+
+function isUserRejection(error: any): boolean {
+  return ethers.isError(error, 'ACTION_REJECTED') || error?.code === 4001 || error?.info?.error?.code === 4001;
+}
+
+/**
+ * Messages fetch() rejects with when the request never gets a response (Chromium, Firefox, Safari, Node)
+ */
+const FETCH_FAILURE_MESSAGES = ['Failed to fetch', 'NetworkError when attempting to fetch resource.', 'Load failed', 'fetch failed'];
+
+const SOCKET_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN'];
+
+function isFetchFailure(error: any): boolean {
+  return (
+    (error instanceof TypeError && FETCH_FAILURE_MESSAGES.includes(error.message)) ||
+    SOCKET_ERROR_CODES.includes(error?.code)
+  );
+}
+
+/**
+ * Only failures to reach the relayer count; other TypeErrors are bugs and must surface as they are
+ */
+function isNetworkFailure(error: any): boolean {
+  return isFetchFailure(error) || isFetchFailure(error?.cause) || ethers.isError(error, 'NETWORK_ERROR');
+}
+
+/**
+ * The relayer SDK checks ACL grants before sending a user decryption request and throws a plain Error,
+ * so its message is the only signal: "User 0x… is not authorized to user decrypt handle 0x…!"
+ */
+const ACCESS_DENIED_PATTERN = /is not authorized to user decrypt handle (0x[0-9a-fA-F]{64})/;
+
+/**
+ * Map an error thrown by the wallet or relayer to the matching SdkError; anything else is returned unchanged
+ */
+export function toSdkError(error: unknown): unknown {
+  if (error instanceof SdkError) return error;
+  if (isUserRejection(error)) return new UserRejectedError(error);
+  if (isNetworkFailure(error)) return new RelayerUnavailableError(error);
+  const denied = error instanceof Error ? ACCESS_DENIED_PATTERN.exec(error.message) : null;
+  if (denied) return new AccessDeniedError(denied[1], error);
+  return error;
+}
@@ -5,6 +5,15 @@
  */
 
 import { ethers } from "ethers";
+import {
+  AccessDeniedError,
+  DelegationExpiredError,
+  InvalidRelayerResponseError,
+  NotInitializedError,
+  SdkError,
+  toSdkError
+} from "./errors.js";
+import type { DecryptionSession } from "./session.js";
 
 let fheInstance: any = null;
 
@@ -13,14 +22,14 @@ let fheInstance: any = null;
  */
 async function initializeBrowserFheInstance() {
   if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
+    throw new SdkError('Ethereum provider not found. Please install MetaMask or connect a wallet.');
   }
 
   // Check for both uppercase and lowercase versions of RelayerSDK
   let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
 
   if (!sdk) {
-    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+    throw new SdkError('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
   }
 
   const { initSDK, createInstance, SepoliaConfig } = sdk;
@@ -125,12 +134,97 @@ export function getFheInstance() {
   return fheInstance;
 }
 
+function requireFheInstance() {
+  if (!fheInstance) throw new NotInitializedError();
+  return fheInstance;
+}
+
+/**
+ * Read access delegated to the signer with `AmlScanFHE.delegateAccess`
+ */
+export interface DelegatedContext {
+  /**
+   * Contract exposing `getDelegation` / `isDelegationActive` / `claimDelegatedAccess`, usually AmlScanFHE,
+   * connected to the delegate's signer so the grant can be claimed
+   */
+  contract: ethers.Contract;
+  transactionId: string;
+}
+
+/**
+ * Check a delegation on-chain and return how many days the decryption request may stay valid
+ */
+async function checkDelegation(delegation: DelegatedContext, delegate: string): Promise<number> {
+  const { contract, transactionId } = delegation;
+  const [grant, isActive] = await Promise.all([
+    contract.getDelegation(transactionId, delegate),
+    contract.isDelegationActive(transactionId, delegate)
+  ]);
+  const expiresAt = Number(grant.expiresAt);
+
+  if (expiresAt === 0 || grant.revoked) {
+    throw new SdkError(`No delegated access to transaction ${transactionId} for ${delegate}`);
+  }
+  if (!isActive) {
+    throw new DelegationExpiredError(transactionId, expiresAt);
+  }
+
+  // Never sign a request that outlives the grant by more than the one-day minimum
+  const remainingSeconds = expiresAt - Math.floor(Date.now() / 1000);
+  return Math.max(1, Math.min(10, Math.ceil(remainingSeconds / 86400)));
+}
+
 /**
  * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+ * Pass `delegation` when decrypting through a time-boxed grant instead of the caller's own access,
+ * and `session` to reuse a DecryptionSession signature instead of prompting the wallet.
+ * With a delegation, the ACL grant is claimed on-chain with `claimDelegatedAccess` the first time the
+ * ACL denies the delegate, and a session is only reused if it expires within the delegation's remaining days.
+ * Claimed grants are permanent: after expiry or revocation the delegate can still decrypt already claimed
+ * transactions by calling the relayer directly.
  */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export async function decryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer: any,
+  delegation?: DelegatedContext,
+  session?: DecryptionSession
+): Promise<number> {
+  if (!delegation) {
+    return userDecryptValue(encryptedBytes, contractAddress, signer, 10, session);
+  }
+
+  const durationDays = await checkDelegation(delegation, await signer.getAddress());
+  if (session && session.expiresAt > Math.floor(Date.now() / 1000) + durationDays * 86400) {
+    throw new SdkError(
+      `Decryption session outlives the delegation on transaction ${delegation.transactionId}; ` +
+        `open one for at most ${durationDays} day(s)`
+    );
+  }
+
+  try {
+    return await userDecryptValue(encryptedBytes, contractAddress, signer, durationDays, session);
+  } catch (error) {
+    if (!(error instanceof AccessDeniedError)) throw error;
+    const tx = await delegation.contract.claimDelegatedAccess(delegation.transactionId);
+    await tx.wait();
+    return userDecryptValue(encryptedBytes, contractAddress, signer, durationDays, session);
+  }
+}
+
+async function userDecryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer: any,
+  durationDays: number,
+  session?: DecryptionSession
+): Promise<number> {
+  const fhe = requireFheInstance();
+
+  if (session) {
+    const values = await session.decrypt([encryptedBytes], contractAddress);
+    return Number(values[encryptedBytes]);
+  }
 
   try {
     console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
@@ -145,14 +239,13 @@ export async function decryptValue(encryptedBytes: string, contractAddress: stri
     ];
     
     const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
     const contractAddresses = [contractAddress];
 
     const eip712 = fhe.createEIP712(
       keypair.publicKey,
       contractAddresses,
       startTimeStamp,
-      durationDays
+      durationDays.toString()
     );
 
     const signature = await signer.signTypedData(
@@ -171,81 +264,12 @@ export async function decryptValue(encryptedBytes: string, contractAddress: stri
       contractAddresses,
       await signer.getAddress(),
       startTimeStamp,
-      durationDays
+      durationDays.toString()
     );
 
     return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
-}
-
-/**
- * Batch decrypt multiple encrypted values using EIP-712 user decryption
- */
-export async function batchDecryptValues(
-  handles: string[], 
-  contractAddress: string, 
-  signer: any
-): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
-    
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
-    for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
-    }
-
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
+  } catch (error) {
+    throw toSdkError(error);
   }
 }
 
@@ -269,130 +293,480 @@ export async function encryptValue(
   address: string,
   plainDigits: number[]
 ) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
+  const relayer = requireFheInstance();
 
   const inputHandle = relayer.createEncryptedInput(contractAddress, address);
   for (const d of plainDigits) {
     inputHandle.add8(d);
   }
   
-  const ciphertextBlob = await inputHandle.encrypt();
+  const ciphertextBlob = await encryptWithRelayer(inputHandle);
   return ciphertextBlob;
 }
 
+/**
+ * Supported bit sizes for encrypted integer inputs
+ */
+export type EncryptedBitSize = 32 | 64;
+
+export interface EncryptedInputValue {
+  value: number | bigint;
+  bits: EncryptedBitSize;
+}
+
+/**
+ * A single encrypted value and the input proof the contract verifies it with
+ */
+export interface EncryptedInput {
+  encryptedData: string;
+  proof: string;
+}
+
+function addToInput(inputHandle: any, value: number | bigint, bits: EncryptedBitSize) {
+  if (bits === 64) {
+    inputHandle.add64(BigInt(value));
+  } else {
+    inputHandle.add32(Number(value));
+  }
+}
+
 /**
  * Create encrypted input for contract interaction (matches showcase API)
+ * Pass bits = 64 for euint64 parameters such as transaction amounts.
  */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export async function createEncryptedInput(
+  contractAddress: string,
+  userAddress: string,
+  value: number | bigint,
+  bits: EncryptedBitSize = 32
+): Promise<EncryptedInput> {
+  const fhe = requireFheInstance();
 
   console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-  
+
   const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
-  
+  addToInput(inputHandle, value, bits);
+  const { handles, proof } = normalizeEncryptResult(await encryptWithRelayer(inputHandle), 1);
+
   console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
-  
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
-    }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
-    }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
+  return {
+    encryptedData: handles[0],
+    proof
+  };
+}
+
+/**
+ * encrypt() fetches the input proof from the relayer, so its failures are mapped like decryption failures
+ */
+async function encryptWithRelayer(inputHandle: any): Promise<any> {
+  try {
+    return await inputHandle.encrypt();
+  } catch (error) {
+    throw toSdkError(error);
+  }
+}
+
+function toHex(value: unknown): string | null {
+  if (typeof value === 'string') return ethers.isHexString(value) ? value : null;
+  if (value instanceof Uint8Array) return ethers.hexlify(value);
+  return null;
+}
+
+/**
+ * Check the relayer's encrypt() result and convert handles and proof to hex strings
+ */
+function normalizeEncryptResult(result: any, expectedHandles: number): { handles: string[]; proof: string } {
+  if (!result || !Array.isArray(result.handles) || result.handles.length !== expectedHandles) {
+    throw new InvalidRelayerResponseError(`expected ${expectedHandles} encrypted handle(s)`, result);
+  }
+  const handles = result.handles.map(toHex);
+  const proof = toHex(result.inputProof);
+  if (handles.some((handle: string | null) => handle === null) || proof === null) {
+    throw new InvalidRelayerResponseError('handles and input proof must be bytes', result);
+  }
+  return { handles, proof };
+}
+
+/**
+ * Create one encrypted input holding several values that share a single input proof
+ * Handles are returned in the same order as the values were added.
+ */
+export async function createEncryptedInputs(
+  contractAddress: string,
+  userAddress: string,
+  values: EncryptedInputValue[]
+): Promise<{ handles: string[]; proof: string }> {
+  console.log(`🔐 Creating encrypted input with ${values.length} values for contract ${contractAddress}`);
+
+  const builder = buildEncryptedInput(contractAddress, userAddress);
+  for (const { value, bits } of values) {
+    if (bits === 64) {
+      builder.u64(value);
+    } else {
+      builder.u32(value);
     }
   }
-  
-  // If result is not an object, use it directly
+  const { handles, proof } = await builder.encrypt();
+
   return {
-    encryptedData: result,
-    proof: result
+    handles: handles.map(({ handle }) => handle),
+    proof
   };
 }
 
-export async function publicDecryptV09(handles: string[]): Promise<{
-  clearValues: { [handle: string]: bigint };
+/**
+ * Maximum total bit width the relayer accepts in one encrypted input
+ */
+export const MAX_ENCRYPTED_INPUT_BITS = 2048;
+
+/**
+ * Encrypted value types supported by the typed input builder
+ */
+export type EncryptedValueType = 'bool' | 'u8' | 'u16' | 'u32' | 'u64' | 'u128' | 'u256' | 'address';
+
+/**
+ * Bits each type takes from the input's MAX_ENCRYPTED_INPUT_BITS budget
+ */
+export const ENCRYPTED_TYPE_BITS: Record<EncryptedValueType, number> = {
+  bool: 2,
+  u8: 8,
+  u16: 16,
+  u32: 32,
+  u64: 64,
+  u128: 128,
+  u256: 256,
+  address: 160
+};
+
+export interface TypedHandle {
+  type: EncryptedValueType;
+  handle: string;
+}
+
+/**
+ * Output of EncryptedInputBuilder.encrypt: handles in the order values were added, sharing one proof
+ */
+export interface EncryptedInputBundle {
+  handles: TypedHandle[];
+  proof: string;
+}
+
+type PendingValue =
+  | { type: 'bool'; value: boolean }
+  | { type: 'address'; value: string }
+  | { type: Exclude<EncryptedValueType, 'bool' | 'address'>; value: bigint };
+
+const RELAYER_ADD_METHODS: Record<EncryptedValueType, string> = {
+  bool: 'addBool',
+  u8: 'add8',
+  u16: 'add16',
+  u32: 'add32',
+  u64: 'add64',
+  u128: 'add128',
+  u256: 'add256',
+  address: 'addAddress'
+};
+
+/**
+ * Chainable builder for an encrypted input mixing several value types under one proof
+ *
+ * const { handles, proof } = await buildEncryptedInput(contractAddress, userAddress)
+ *   .u64(amount)
+ *   .u32(riskScore)
+ *   .bool(isCrossBorder)
+ *   .encrypt();
+ */
+export class EncryptedInputBuilder {
+  private readonly values: PendingValue[] = [];
+  private bits = 0;
+
+  constructor(
+    private readonly contractAddress: string,
+    private readonly userAddress: string
+  ) {}
+
+  bool(value: boolean): this {
+    if (typeof value !== 'boolean') {
+      throw new SdkError(`Encrypted bool value must be a boolean, got ${typeof value}`);
+    }
+    return this.push({ type: 'bool', value });
+  }
+
+  u8(value: number | bigint): this {
+    return this.uint('u8', value);
+  }
+
+  u16(value: number | bigint): this {
+    return this.uint('u16', value);
+  }
+
+  u32(value: number | bigint): this {
+    return this.uint('u32', value);
+  }
+
+  u64(value: number | bigint): this {
+    return this.uint('u64', value);
+  }
+
+  u128(value: number | bigint): this {
+    return this.uint('u128', value);
+  }
+
+  u256(value: number | bigint): this {
+    return this.uint('u256', value);
+  }
+
+  address(value: string): this {
+    if (!ethers.isAddress(value)) {
+      throw new SdkError(`Encrypted address value is not a valid address: ${value}`);
+    }
+    return this.push({ type: 'address', value: ethers.getAddress(value) });
+  }
+
+  /**
+   * Number of values added so far
+   */
+  get size(): number {
+    return this.values.length;
+  }
+
+  /**
+   * Bits used so far out of MAX_ENCRYPTED_INPUT_BITS
+   */
+  get totalBits(): number {
+    return this.bits;
+  }
+
+  /**
+   * Encrypt every added value in one relayer input
+   */
+  async encrypt(): Promise<EncryptedInputBundle> {
+    if (this.values.length === 0) {
+      throw new SdkError('Encrypted input is empty; add at least one value before encrypting');
+    }
+
+    const fhe = requireFheInstance();
+
+    const inputHandle = fhe.createEncryptedInput(this.contractAddress, this.userAddress);
+    for (const { type, value } of this.values) {
+      inputHandle[RELAYER_ADD_METHODS[type]](value);
+    }
+    const { handles, proof } = normalizeEncryptResult(await encryptWithRelayer(inputHandle), this.values.length);
+    return {
+      handles: handles.map((handle, i) => ({ type: this.values[i].type, handle })),
+      proof
+    };
+  }
+
+  private uint(type: Exclude<EncryptedValueType, 'bool' | 'address'>, value: number | bigint): this {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      throw new SdkError(`Encrypted ${type} value must be a safe integer, got ${value}`);
+    }
+    const bigValue = BigInt(value);
+    const max = (1n << BigInt(ENCRYPTED_TYPE_BITS[type])) - 1n;
+    if (bigValue < 0n || bigValue > max) {
+      throw new SdkError(`Encrypted ${type} value ${bigValue} is out of range [0, ${max}]`);
+    }
+    return this.push({ type, value: bigValue });
+  }
+
+  private push(value: PendingValue): this {
+    const bits = this.bits + ENCRYPTED_TYPE_BITS[value.type];
+    if (bits > MAX_ENCRYPTED_INPUT_BITS) {
+      throw new SdkError(`Encrypted input needs ${bits} bits, the relayer accepts at most ${MAX_ENCRYPTED_INPUT_BITS} per input`);
+    }
+    this.values.push(value);
+    this.bits = bits;
+    return this;
+  }
+}
+
+/**
+ * Start a typed encrypted input for `contractAddress`, to be submitted by `userAddress`
+ */
+export function buildEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder {
+  return new EncryptedInputBuilder(contractAddress, userAddress);
+}
+
+/**
+ * Encrypt the values of many records in one input so they share a single proof
+ * `toValues` lists each record's values in the order the contract expects them;
+ * the returned handles are mapped back to their records in the same order.
+ */
+export async function createEncryptedBatch<T>(
+  contractAddress: string,
+  userAddress: string,
+  records: T[],
+  toValues: (record: T) => EncryptedInputValue[]
+): Promise<{ records: Array<{ record: T; handles: string[] }>; proof: string }> {
+  const valuesPerRecord = records.map(toValues);
+  const flatValues = valuesPerRecord.flat();
+
+  const totalBits = flatValues.reduce((sum, { bits }) => sum + bits, 0);
+  if (totalBits > MAX_ENCRYPTED_INPUT_BITS) {
+    throw new SdkError(`Batch needs ${totalBits} bits, the relayer accepts at most ${MAX_ENCRYPTED_INPUT_BITS} per input`);
+  }
+
+  const { handles, proof } = await createEncryptedInputs(contractAddress, userAddress, flatValues);
+
+  let offset = 0;
+  const mapped = records.map((record, i) => {
+    const count = valuesPerRecord[i].length;
+    const recordHandles = handles.slice(offset, offset + count);
+    offset += count;
+    return { record, handles: recordHandles };
+  });
+
+  return { records: mapped, proof };
+}
+
+/**
+ * Clear value of a decrypted handle: booleans for ebool, checksummed strings for eaddress, bigints otherwise
+ */
+export type ClearValue = boolean | bigint | string;
+
+export interface PublicDecryptionResult {
+  clearValues: Record<string, ClearValue>;
+  /** abi.encode of the clear values in handle order, as checked by FHE.checkSignatures */
   abiEncodedClearValues: string;
   decryptionProof: string;
-}> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+}
 
-  try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
-    
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
-      
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
-      } else {
-        throw new Error('Invalid publicDecrypt result structure');
-      }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
-      
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
-      
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
-        }
-      }
-
-      if (handles.length === 1) {
-
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'], 
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
-
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'), 
-          values
-        );
-      }
-      
-      return {
-        clearValues,
-        abiEncodedClearValues,
-        decryptionProof
-      };
+/**
+ * FheType ids stored in byte 30 of every ciphertext handle
+ */
+const HANDLE_TYPE_IDS: Record<number, EncryptedValueType> = {
+  0: 'bool',
+  2: 'u8',
+  3: 'u16',
+  4: 'u32',
+  5: 'u64',
+  6: 'u128',
+  7: 'address',
+  8: 'u256'
+};
+
+const ABI_TYPES: Record<EncryptedValueType, string> = {
+  bool: 'bool',
+  u8: 'uint8',
+  u16: 'uint16',
+  u32: 'uint32',
+  u64: 'uint64',
+  u128: 'uint128',
+  u256: 'uint256',
+  address: 'address'
+};
+
+/**
+ * Read the FHE type a ciphertext handle was created with
+ */
+export function getHandleType(handle: string): EncryptedValueType {
+  if (!ethers.isHexString(handle, 32)) {
+    throw new SdkError(`Invalid ciphertext handle: ${handle}`);
+  }
+  const typeId = ethers.getBytes(handle)[30];
+  const type = HANDLE_TYPE_IDS[typeId];
+  if (!type) {
+    throw new SdkError(`Unsupported FHE type ${typeId} for handle ${handle}`);
+  }
+  return type;
+}
+
+function toTypedHandle(handle: string | TypedHandle): TypedHandle {
+  if (typeof handle !== 'string') {
+    const actual = getHandleType(handle.handle);
+    if (actual !== handle.type) {
+      throw new SdkError(`Handle ${handle.handle} is ${actual}, expected ${handle.type}`);
     }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+    return handle;
+  }
+  return { handle, type: getHandleType(handle) };
+}
+
+function toClearValue(type: EncryptedValueType, raw: unknown): ClearValue {
+  if (type === 'bool') {
+    if (typeof raw === 'boolean') return raw;
+    if (raw === 0n || raw === 1n || raw === 0 || raw === 1) return Boolean(raw);
+  } else if (type === 'address') {
+    if (typeof raw === 'string' && ethers.isAddress(raw)) return ethers.getAddress(raw);
+    if (typeof raw === 'bigint') return ethers.getAddress(ethers.toBeHex(raw, 20));
+  } else if (typeof raw === 'bigint' || typeof raw === 'number' || typeof raw === 'string') {
+    const value = BigInt(raw);
+    if (value >= 0n && value < 1n << BigInt(ENCRYPTED_TYPE_BITS[type])) return value;
+  }
+  throw new InvalidRelayerResponseError(`clear value ${String(raw)} does not fit ${type}`, raw);
+}
+
+async function relayerPublicDecrypt(handles: string[]): Promise<any> {
+  const fhe = requireFheInstance();
+  if (typeof fhe.publicDecrypt !== 'function') {
+    throw new SdkError('The FHE instance does not support public decryption');
+  }
+  try {
+    return await fhe.publicDecrypt(handles);
+  } catch (error) {
+    throw toSdkError(error);
+  }
+}
+
+function readClearValues(typed: TypedHandle[], result: any): Record<string, ClearValue> {
+  if (!result || typeof result.clearValues !== 'object' || result.clearValues === null) {
+    throw new InvalidRelayerResponseError('publicDecrypt result has no clear values', result);
+  }
+  const clearValues: Record<string, ClearValue> = {};
+  for (const { handle, type } of typed) {
+    if (!(handle in result.clearValues)) {
+      throw new InvalidRelayerResponseError(`no clear value for handle ${handle}`, result);
     }
-    throw error;
+    clearValues[handle] = toClearValue(type, result.clearValues[handle]);
+  }
+  return clearValues;
+}
+
+/**
+ * Public-decrypt handles together with the KMS proof that `FHE.checkSignatures` verifies on-chain
+ * Each handle's type is read from the handle (or checked against the given TypedHandle) and the clear
+ * values are ABI-encoded with those types. Results without a proof are rejected rather than returned.
+ */
+export async function publicDecrypt(handles: Array<string | TypedHandle>): Promise<PublicDecryptionResult> {
+  if (handles.length === 0) {
+    throw new SdkError('publicDecrypt needs at least one handle');
+  }
+  const typed = handles.map(toTypedHandle);
+  console.log('🔐 Starting public decryption for handles:', typed.map(({ handle }) => handle));
+
+  const result = await relayerPublicDecrypt(typed.map(({ handle }) => handle));
+  const clearValues = readClearValues(typed, result);
+
+  const decryptionProof = result.decryptionProof;
+  if (typeof decryptionProof !== 'string' || !ethers.isHexString(decryptionProof) || ethers.dataLength(decryptionProof) === 0) {
+    throw new InvalidRelayerResponseError('publicDecrypt result has no decryption proof', result);
+  }
+
+  const abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+    typed.map(({ type }) => ABI_TYPES[type]),
+    typed.map(({ handle }) => clearValues[handle])
+  );
+  if (result.abiEncodedClearValues !== undefined && result.abiEncodedClearValues !== abiEncodedClearValues) {
+    throw new InvalidRelayerResponseError('abiEncodedClearValues do not match the decrypted values', result);
   }
+
+  return { clearValues, abiEncodedClearValues, decryptionProof };
 }
 
+/**
+ * Unverified preview of publicly decryptable values, for local display only
+ * The result carries no proof and must not be submitted to a contract; use publicDecrypt for that.
+ */
+export async function previewPublicDecrypt(handles: Array<string | TypedHandle>): Promise<Record<string, ClearValue>> {
+  const typed = handles.map(toTypedHandle);
+  if (typed.length === 0) return {};
+  return readClearValues(typed, await relayerPublicDecrypt(typed.map(({ handle }) => handle)));
+}
 
+/**
+ * @deprecated Use publicDecrypt, which this forwards to
+ */
+export async function publicDecryptV09(handles: Array<string | TypedHandle>): Promise<PublicDecryptionResult> {
+  return publicDecrypt(handles);
+}
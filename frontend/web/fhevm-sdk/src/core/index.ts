@@ -4,7 +4,12 @@
  */
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
+export * from './errors.js';
 export * from './fhevm.js';
 export * from './contracts.js';
+export * from './sar.js';
+export * from './tiers.js';
+export * from './audit.js';
+export * from './session.js';
 
 
@@ -0,0 +1,311 @@
+/**
+ * Suspicious Activity Report (SAR) builder
+ * Collects a case, its transaction and scan results from the AML contracts,
+ * user-decrypts what the officer may see and renders JSON / printable HTML.
+ */
+
+import { ethers } from 'ethers';
+import type { ClearValue } from './fhevm.js';
+import { DecryptionSession } from './session.js';
+import { fetchAllPages } from './contracts.js';
+import { AccessDeniedError, SdkError } from './errors.js';
+
+export const CASE_STATUS_LABELS = [
+  'None',
+  'Open',
+  'UnderReview',
+  'Escalated',
+  'ClosedFalsePositive',
+  'Reported'
+] as const;
+
+export type CaseStatusLabel = (typeof CASE_STATUS_LABELS)[number];
+
+export const RULE_KIND_LABELS = ['Threshold', 'Composite', 'Structuring'] as const;
+
+export interface SarRuleResult {
+  ruleId: string;
+  kind: string;
+  ruleVersion: number;
+  isRevealed: boolean;
+  isHit: boolean | null;
+}
+
+export interface SarCaseTransition {
+  fromStatus: CaseStatusLabel;
+  toStatus: CaseStatusLabel;
+  actor: string;
+  timestamp: number;
+  noteHash: string;
+}
+
+export interface SarReport {
+  version: 1;
+  generatedAt: string;
+  generatedBy: string;
+  amlContract: string;
+  caseContract: string;
+  case: {
+    caseId: string;
+    status: CaseStatusLabel;
+    assignee: string;
+    openedAt: number;
+    updatedAt: number;
+    noteHashes: string[];
+  };
+  transaction: {
+    id: string;
+    sender: string;
+    receiver: string;
+    timestamp: number;
+    isFlagged: boolean;
+    amount: string | null;
+    riskScore: number | null;
+  };
+  rules: SarRuleResult[];
+  history: SarCaseTransition[];
+  withheldFields: string[];
+}
+
+export interface BuildSarOptions {
+  amlContract: ethers.Contract;
+  caseContract: ethers.Contract;
+  caseId: bigint | number | string;
+  signer: ethers.Signer;
+}
+
+const ZERO_HASH = ethers.ZeroHash;
+
+/**
+ * Decrypt the transaction fields the signer holds ACL grants for, under a single wallet signature.
+ * Fields the ACL refuses are reported as withheld instead of failing the whole report; any other
+ * failure (a rejected signature, an unreachable relayer) is rethrown.
+ */
+async function decryptAuthorizedFields(
+  fields: Record<string, string>,
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<{ values: Record<string, ClearValue>; withheld: string[] }> {
+  const entries = Object.entries(fields).filter(([, handle]) => handle !== ZERO_HASH);
+  const values: Record<string, ClearValue> = {};
+  const withheld = Object.keys(fields).filter(name => fields[name] === ZERO_HASH);
+  if (entries.length === 0) return { values, withheld };
+
+  const session = await DecryptionSession.open(signer, { contractAddresses: [contractAddress] });
+  try {
+    const decrypted = await session.decrypt(entries.map(([, handle]) => handle), contractAddress);
+    for (const [name, handle] of entries) {
+      values[name] = decrypted[handle];
+    }
+    return { values, withheld };
+  } catch (error) {
+    if (!(error instanceof AccessDeniedError)) throw error;
+    console.warn('⚠️ Batch decryption refused by the ACL, retrying field by field:', error);
+  }
+
+  for (const [name, handle] of entries) {
+    try {
+      values[name] = (await session.decrypt([handle], contractAddress))[handle];
+    } catch (error) {
+      if (!(error instanceof AccessDeniedError)) throw error;
+      withheld.push(name);
+    }
+  }
+  return { values, withheld };
+}
+
+/**
+ * Build a SAR for an escalated (or already reported) case
+ */
+export async function buildSarReport({ amlContract, caseContract, caseId, signer }: BuildSarOptions): Promise<SarReport> {
+  const caseData = await caseContract.getCase(caseId);
+  const status = CASE_STATUS_LABELS[Number(caseData.status)];
+  if (status !== 'Escalated' && status !== 'Reported') {
+    throw new SdkError(`SAR can only be generated for escalated cases (case ${caseId} is ${status})`);
+  }
+
+  const transactionId: string = caseData.transactionId;
+  const amlAddress = await amlContract.getAddress();
+  const transaction = await amlContract.getTransaction(transactionId);
+  const handles = await amlContract.getEncryptedHandles(transactionId);
+
+  const allRules = await fetchAllPages<any>(async (offset, limit) => {
+    const [page, total] = await amlContract.getRiskRules(offset, limit);
+    return [[...page], total];
+  });
+
+  const rules: SarRuleResult[] = [];
+  for (const rule of allRules) {
+    const scan = await amlContract.getScanResult(transactionId, rule.id);
+    if (!scan.isScanned) continue;
+    rules.push({
+      ruleId: rule.id,
+      kind: RULE_KIND_LABELS[Number(rule.kind)] ?? String(rule.kind),
+      ruleVersion: Number(scan.ruleVersion),
+      isRevealed: scan.isRevealed,
+      isHit: scan.isRevealed ? scan.isHit : null
+    });
+  }
+
+  const history: SarCaseTransition[] = (await caseContract.getCaseHistory(caseId)).map((entry: any) => ({
+    fromStatus: CASE_STATUS_LABELS[Number(entry.fromStatus)],
+    toStatus: CASE_STATUS_LABELS[Number(entry.toStatus)],
+    actor: entry.actor,
+    timestamp: Number(entry.timestamp),
+    noteHash: entry.noteHash
+  }));
+
+  const { values, withheld } = await decryptAuthorizedFields(
+    { amount: handles.encryptedAmount, riskScore: handles.encryptedRiskScore },
+    amlAddress,
+    signer
+  );
+
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    generatedBy: await signer.getAddress(),
+    amlContract: amlAddress,
+    caseContract: await caseContract.getAddress(),
+    case: {
+      caseId: caseId.toString(),
+      status,
+      assignee: caseData.assignee,
+      openedAt: Number(caseData.openedAt),
+      updatedAt: Number(caseData.updatedAt),
+      noteHashes: [...(await caseContract.getCaseNotes(caseId))]
+    },
+    transaction: {
+      id: transactionId,
+      sender: transaction.sender,
+      receiver: transaction.receiver,
+      timestamp: Number(transaction.timestamp),
+      isFlagged: transaction.isFlagged,
+      amount: values.amount !== undefined ? values.amount.toString() : null,
+      riskScore: values.riskScore !== undefined ? Number(values.riskScore) : null
+    },
+    rules,
+    history,
+    withheldFields: withheld
+  };
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * Serialize a report with sorted keys so the same report always hashes the same
+ */
+export function serializeSarReport(report: SarReport): string {
+  return JSON.stringify(canonicalize(report), null, 2);
+}
+
+/**
+ * keccak256 of the canonical JSON, as recorded on-chain by recordSarGenerated
+ */
+export function hashSarReport(report: SarReport): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(serializeSarReport(report)));
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '—')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Render a self-contained, print-ready HTML document (use the browser's "Save as PDF")
+ */
+export function renderSarHtml(report: SarReport, reportHash: string = hashSarReport(report)): string {
+  const row = (label: string, value: unknown) =>
+    `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+
+  const ruleRows = report.rules
+    .map(r => `<tr><td>${escapeHtml(r.ruleId)}</td><td>${escapeHtml(r.kind)}</td><td>${escapeHtml(r.ruleVersion)}</td><td>${
+      r.isHit === null ? 'Encrypted' : r.isHit ? 'Hit' : 'No hit'
+    }</td></tr>`)
+    .join('');
+
+  const historyRows = report.history
+    .map(h => `<tr><td>${escapeHtml(formatTimestamp(h.timestamp))}</td><td>${escapeHtml(h.fromStatus)} → ${escapeHtml(
+      h.toStatus
+    )}</td><td>${escapeHtml(h.actor)}</td><td>${escapeHtml(h.noteHash)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>SAR – Case ${escapeHtml(report.case.caseId)}</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 2rem; color: #111; }
+  h1 { font-size: 1.4rem; margin-bottom: 0; }
+  h2 { font-size: 1.1rem; margin-top: 1.5rem; border-bottom: 1px solid #999; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; word-break: break-all; }
+  th { background: #f2f2f2; width: 30%; }
+  .meta { color: #555; font-size: 0.8rem; }
+  @media print { body { margin: 0; } h2 { page-break-after: avoid; } }
+</style>
+</head>
+<body>
+<h1>Suspicious Activity Report</h1>
+<p class="meta">Generated ${escapeHtml(report.generatedAt)} by ${escapeHtml(report.generatedBy)}<br />Report hash ${escapeHtml(reportHash)}</p>
+<h2>Case</h2>
+<table>
+${row('Case ID', report.case.caseId)}
+${row('Status', report.case.status)}
+${row('Assignee', report.case.assignee)}
+${row('Opened', formatTimestamp(report.case.openedAt))}
+${row('Last updated', formatTimestamp(report.case.updatedAt))}
+${row('Case contract', report.caseContract)}
+</table>
+<h2>Transaction</h2>
+<table>
+${row('Transaction ID', report.transaction.id)}
+${row('Sender', report.transaction.sender)}
+${row('Receiver', report.transaction.receiver)}
+${row('Recorded', formatTimestamp(report.transaction.timestamp))}
+${row('Amount', report.transaction.amount ?? 'Withheld (encrypted)')}
+${row('Risk score', report.transaction.riskScore ?? 'Withheld (encrypted)')}
+${row('AML contract', report.amlContract)}
+</table>
+<h2>Rules evaluated</h2>
+<table><tr><th>Rule</th><th>Kind</th><th>Version</th><th>Result</th></tr>${ruleRows}</table>
+<h2>Case history</h2>
+<table><tr><th>Time</th><th>Transition</th><th>Actor</th><th>Note hash</th></tr>${historyRows}</table>
+</body>
+</html>`;
+}
+
+/**
+ * Anchor a generated report on-chain via the case contract's SarGenerated event
+ */
+export async function recordSarGeneration(
+  caseContract: ethers.Contract,
+  caseId: bigint | number | string,
+  reportHash: string
+): Promise<ethers.TransactionReceipt> {
+  const tx = await caseContract.recordSarGenerated(caseId, reportHash);
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new SdkError('Transaction receipt is null');
+  }
+  return receipt;
+}
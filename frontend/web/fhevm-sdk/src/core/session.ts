@@ -0,0 +1,379 @@
+/**
+ * Reusable EIP-712 user-decryption sessions
+ * One keypair and one wallet signature cover a set of contracts for `durationDays`,
+ * so a reviewer signs once instead of once per decryption.
+ */
+
+import { ethers } from 'ethers';
+import { ENCRYPTED_TYPE_BITS, getFheInstance, getHandleType } from './fhevm.js';
+import type { ClearValue } from './fhevm.js';
+import { DecryptionSessionExpiredError, InvalidRelayerResponseError, NotInitializedError, SdkError, toSdkError } from './errors.js';
+
+export const DEFAULT_SESSION_DURATION_DAYS = 10;
+
+/**
+ * Relayer limits: contracts listed in one EIP-712 request, and total encrypted bits decrypted per request
+ */
+export const MAX_SESSION_CONTRACTS = 10;
+export const MAX_USER_DECRYPT_BITS = 2048;
+
+const SECONDS_PER_DAY = 86400;
+const PBKDF2_ITERATIONS = 100_000;
+
+/**
+ * Minimal key-value store: `localStorage`, `sessionStorage` or an async equivalent
+ */
+export interface SessionStorageLike {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface DecryptionSessionPersistence {
+  storage: SessionStorageLike;
+  /** Secret the stored keypair is encrypted with (AES-GCM, key derived with PBKDF2) */
+  passphrase: string;
+  /** Storage key; defaults to one derived from the user address */
+  key?: string;
+}
+
+export interface DecryptionSessionOptions {
+  contractAddresses: string[];
+  durationDays?: number;
+  persist?: DecryptionSessionPersistence;
+}
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+/**
+ * Clear values keyed by checksummed contract address, then by handle
+ */
+export type DecryptedByContract = Record<string, Record<string, ClearValue>>;
+
+interface SessionData {
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+function normalizeAddresses(addresses: string[]): string[] {
+  const normalized = [...new Set(addresses.map(address => ethers.getAddress(address)))].sort();
+  if (normalized.length === 0 || normalized.length > MAX_SESSION_CONTRACTS) {
+    throw new SdkError(`A decryption session covers between 1 and ${MAX_SESSION_CONTRACTS} contracts, got ${normalized.length}`);
+  }
+  return normalized;
+}
+
+/**
+ * Split handle/contract pairs into relayer-sized requests, dropping duplicates
+ * Each chunk stays within MAX_USER_DECRYPT_BITS and lists at most MAX_SESSION_CONTRACTS contracts.
+ */
+export function chunkPairs(pairs: HandleContractPair[]): HandleContractPair[][] {
+  const seen = new Set<string>();
+  const chunks: HandleContractPair[][] = [];
+  let current: HandleContractPair[] = [];
+  let currentBits = 0;
+  let currentContracts = new Set<string>();
+
+  for (const { handle, contractAddress: address } of pairs) {
+    const contractAddress = ethers.getAddress(address);
+    const key = `${contractAddress}:${handle}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const bits = ENCRYPTED_TYPE_BITS[getHandleType(handle)];
+    const addsContract = !currentContracts.has(contractAddress);
+    if (
+      current.length > 0 &&
+      (currentBits + bits > MAX_USER_DECRYPT_BITS || (addsContract && currentContracts.size === MAX_SESSION_CONTRACTS))
+    ) {
+      chunks.push(current);
+      current = [];
+      currentBits = 0;
+      currentContracts = new Set();
+    }
+    current.push({ handle, contractAddress });
+    currentBits += bits;
+    currentContracts.add(contractAddress);
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+function requireFhe() {
+  const fhe = getFheInstance();
+  if (!fhe) throw new NotInitializedError();
+  return fhe;
+}
+
+async function signSession(signer: ethers.Signer, contractAddresses: string[], durationDays: number): Promise<SessionData> {
+  const fhe = requireFhe();
+  const keypair = fhe.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = fhe.createEIP712(keypair.publicKey, contractAddresses, startTimestamp.toString(), durationDays.toString());
+
+  try {
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message
+    );
+    return {
+      userAddress: await signer.getAddress(),
+      contractAddresses,
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature,
+      startTimestamp,
+      durationDays
+    };
+  } catch (error) {
+    throw toSdkError(error);
+  }
+}
+
+/**
+ * Copy into a plain ArrayBuffer-backed view, as WebCrypto requires
+ */
+function toBufferSource(bytes: Uint8Array) {
+  return new Uint8Array(bytes);
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', toBufferSource(ethers.toUtf8Bytes(passphrase)), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function sealSession(data: SessionData, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, toBufferSource(ethers.toUtf8Bytes(JSON.stringify(data))));
+  return JSON.stringify({
+    version: 1,
+    salt: ethers.hexlify(salt),
+    iv: ethers.hexlify(iv),
+    ciphertext: ethers.hexlify(new Uint8Array(ciphertext))
+  });
+}
+
+/**
+ * Returns null when the stored session cannot be decrypted (wrong passphrase or corrupted entry)
+ */
+async function openSealedSession(sealed: string, passphrase: string): Promise<SessionData | null> {
+  try {
+    const { version, salt, iv, ciphertext } = JSON.parse(sealed);
+    if (version !== 1) return null;
+    const key = await deriveKey(passphrase, toBufferSource(ethers.getBytes(salt)));
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: toBufferSource(ethers.getBytes(iv)) },
+      key,
+      toBufferSource(ethers.getBytes(ciphertext))
+    );
+    return JSON.parse(ethers.toUtf8String(new Uint8Array(plaintext)));
+  } catch {
+    return null;
+  }
+}
+
+export class DecryptionSession {
+  private constructor(
+    private readonly signer: ethers.Signer,
+    private data: SessionData,
+    private readonly persist?: DecryptionSessionPersistence
+  ) {}
+
+  /**
+   * Resume a stored session that covers `contractAddresses`, or sign a new one
+   */
+  static async open(signer: ethers.Signer, options: DecryptionSessionOptions): Promise<DecryptionSession> {
+    const contractAddresses = normalizeAddresses(options.contractAddresses);
+    const durationDays = options.durationDays ?? DEFAULT_SESSION_DURATION_DAYS;
+    const { persist } = options;
+
+    if (persist) {
+      const userAddress = await signer.getAddress();
+      const sealed = await persist.storage.getItem(DecryptionSession.storageKey(userAddress, persist));
+      const stored = sealed ? await openSealedSession(sealed, persist.passphrase) : null;
+      if (stored) {
+        const session = new DecryptionSession(signer, stored, persist);
+        if (session.userAddress === userAddress && !session.isExpired() && contractAddresses.every(a => session.covers(a))) {
+          return session;
+        }
+      }
+    }
+
+    const session = new DecryptionSession(signer, await signSession(signer, contractAddresses, durationDays), persist);
+    await session.save();
+    return session;
+  }
+
+  private static storageKey(userAddress: string, persist: DecryptionSessionPersistence): string {
+    return persist.key ?? `fhevm-sdk:decryption-session:${userAddress.toLowerCase()}`;
+  }
+
+  get userAddress(): string {
+    return this.data.userAddress;
+  }
+
+  get contractAddresses(): string[] {
+    return [...this.data.contractAddresses];
+  }
+
+  get startTimestamp(): number {
+    return this.data.startTimestamp;
+  }
+
+  get durationDays(): number {
+    return this.data.durationDays;
+  }
+
+  /**
+   * Unix time (seconds) after which the relayer rejects this session's signature
+   */
+  get expiresAt(): number {
+    return this.data.startTimestamp + this.data.durationDays * SECONDS_PER_DAY;
+  }
+
+  /**
+   * Pass `marginSeconds` to treat a session that is about to expire as expired already
+   */
+  isExpired(marginSeconds: number = 0): boolean {
+    return Math.floor(Date.now() / 1000) + marginSeconds >= this.expiresAt;
+  }
+
+  covers(contractAddress: string): boolean {
+    return this.data.contractAddresses.includes(ethers.getAddress(contractAddress));
+  }
+
+  /**
+   * Sign a new keypair for the same contracts and duration
+   */
+  async refresh(): Promise<void> {
+    this.data = await signSession(this.signer, this.data.contractAddresses, this.data.durationDays);
+    await this.save();
+  }
+
+  /**
+   * Forget the stored session; the signature itself stays valid until it expires
+   */
+  async clear(): Promise<void> {
+    if (this.persist) {
+      await this.persist.storage.removeItem(DecryptionSession.storageKey(this.userAddress, this.persist));
+    }
+  }
+
+  /**
+   * User-decrypt handles of one covered contract without asking the wallet again
+   */
+  async decrypt(handles: string[], contractAddress: string): Promise<Record<string, ClearValue>> {
+    const results = await this.decryptPairs(handles.map(handle => ({ handle, contractAddress })));
+    return results[ethers.getAddress(contractAddress)] ?? {};
+  }
+
+  /**
+   * User-decrypt handles spread over the covered contracts, keyed by contract address and handle
+   * Requests are split so that none exceeds MAX_USER_DECRYPT_BITS; all of them reuse this session's signature.
+   */
+  async decryptPairs(pairs: HandleContractPair[]): Promise<DecryptedByContract> {
+    const uncovered = pairs.find(({ contractAddress }) => !this.covers(contractAddress));
+    if (uncovered) {
+      throw new SdkError(`Decryption session does not cover contract ${uncovered.contractAddress}`);
+    }
+    if (this.isExpired()) {
+      throw new DecryptionSessionExpiredError(this.expiresAt);
+    }
+
+    const results: DecryptedByContract = {};
+    for (const chunk of chunkPairs(pairs)) {
+      const values = await this.userDecrypt(chunk);
+      for (const { handle, contractAddress } of chunk) {
+        if (!(handle in values)) {
+          throw new InvalidRelayerResponseError(`no clear value for handle ${handle}`, values);
+        }
+        (results[contractAddress] ??= {})[handle] = values[handle];
+      }
+    }
+    return results;
+  }
+
+  private async userDecrypt(pairs: HandleContractPair[]): Promise<Record<string, ClearValue>> {
+    const fhe = requireFhe();
+    const { privateKey, publicKey, signature, contractAddresses, userAddress, startTimestamp, durationDays } = this.data;
+    try {
+      return await fhe.userDecrypt(
+        pairs,
+        privateKey,
+        publicKey,
+        signature.replace('0x', ''),
+        contractAddresses,
+        userAddress,
+        startTimestamp.toString(),
+        durationDays.toString()
+      );
+    } catch (error) {
+      throw toSdkError(error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (this.persist) {
+      await this.persist.storage.setItem(
+        DecryptionSession.storageKey(this.userAddress, this.persist),
+        await sealSession(this.data, this.persist.passphrase)
+      );
+    }
+  }
+}
+
+/**
+ * User-decrypt handles from several contracts, signing as few sessions as the relayer limits allow
+ * Pairs of contracts `session` covers reuse it; the remaining contracts are signed for in groups of
+ * MAX_SESSION_CONTRACTS, one wallet signature per group.
+ */
+export async function batchDecryptAcrossContracts(
+  pairs: HandleContractPair[],
+  signer: ethers.Signer,
+  session?: DecryptionSession
+): Promise<DecryptedByContract> {
+  const normalized = pairs.map(({ handle, contractAddress }) => ({ handle, contractAddress: ethers.getAddress(contractAddress) }));
+  const covered = session ? normalized.filter(({ contractAddress }) => session.covers(contractAddress)) : [];
+  const uncovered = session ? normalized.filter(({ contractAddress }) => !session.covers(contractAddress)) : normalized;
+
+  const results: DecryptedByContract = covered.length > 0 ? await session!.decryptPairs(covered) : {};
+  const contracts = [...new Set(uncovered.map(({ contractAddress }) => contractAddress))].sort();
+  for (let i = 0; i < contracts.length; i += MAX_SESSION_CONTRACTS) {
+    const group = contracts.slice(i, i + MAX_SESSION_CONTRACTS);
+    const groupSession = await DecryptionSession.open(signer, { contractAddresses: group });
+    Object.assign(results, await groupSession.decryptPairs(uncovered.filter(({ contractAddress }) => group.includes(contractAddress))));
+  }
+  return results;
+}
+
+/**
+ * Batch decrypt handles of one contract using EIP-712 user decryption
+ * Integers come back as bigint, so euint64 values above 2^53 stay exact; requests are chunked like
+ * batchDecryptAcrossContracts. Pass `session` to reuse a DecryptionSession signature instead of prompting the wallet.
+ */
+export async function batchDecryptValues(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer,
+  session?: DecryptionSession
+): Promise<Record<string, ClearValue>> {
+  const results = await batchDecryptAcrossContracts(handles.map(handle => ({ handle, contractAddress })), signer, session);
+  return results[ethers.getAddress(contractAddress)] ?? {};
+}
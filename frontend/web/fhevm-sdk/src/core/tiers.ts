@@ -0,0 +1,56 @@
+/**
+ * Risk tier bands
+ * Reads the encrypted tier boundaries from AmlRiskTiers and turns them into score bands for display.
+ */
+
+import { ethers } from 'ethers';
+import type { ClearValue } from './fhevm.js';
+import { batchDecryptValues } from './session.js';
+import { AccessDeniedError } from './errors.js';
+
+export const RISK_TIER_LABELS = ['Low', 'Medium', 'High', 'Severe', 'Critical'] as const;
+
+export interface RiskBand {
+  tier: number;
+  label: string;
+  min: number;
+  max: number;
+  isHighRisk: boolean;
+}
+
+/**
+ * Build contiguous score bands from ascending tier boundaries: a score reaching boundary `i` is tier `i + 1`
+ */
+export function toRiskBands(boundaries: number[], highRiskTier: number, maxScore: number = 100): RiskBand[] {
+  const lowerBounds = [0, ...boundaries];
+  return lowerBounds.map((min, tier) => ({
+    tier,
+    label: RISK_TIER_LABELS[tier] ?? `Tier ${tier}`,
+    min,
+    max: tier + 1 < lowerBounds.length ? lowerBounds[tier + 1] - 1 : maxScore,
+    isHighRisk: tier >= highRiskTier
+  }));
+}
+
+/**
+ * User-decrypt the current tier boundaries, requesting ACL access once if the ACL denies the signer.
+ * Other failures, such as a rejected signature or an unreachable relayer, are rethrown without a transaction.
+ * `tierContract` must be connected to `signer`; returns no bands while tiers are not configured.
+ */
+export async function loadRiskBands(tierContract: ethers.Contract, signer: ethers.Signer): Promise<RiskBand[]> {
+  const [handles, highRiskTier] = await tierContract.getRiskTiers();
+  if (handles.length === 0) return [];
+
+  const tierAddress = await tierContract.getAddress();
+  let values: Record<string, ClearValue>;
+  try {
+    values = await batchDecryptValues([...handles], tierAddress, signer);
+  } catch (error) {
+    if (!(error instanceof AccessDeniedError)) throw error;
+    const tx = await tierContract.grantTierAccess();
+    await tx.wait();
+    values = await batchDecryptValues([...handles], tierAddress, signer);
+  }
+
+  return toRiskBands(handles.map((handle: string) => Number(values[handle])), Number(highRiskTier));
+}
@@ -0,0 +1,60 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { computeAuditEntryHash, verifyAuditChain } from '../src/core/audit.js';
+import type { AuditEntry } from '../src/core/audit.js';
+
+const SOURCE = ethers.Wallet.createRandom().address;
+const ACTOR = ethers.Wallet.createRandom().address;
+
+/**
+ * Entries chained the way AmlAuditLog.append chains them, starting from a zero hash
+ */
+function buildChain(count: number): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  let prevHash = ethers.ZeroHash;
+  for (let index = 0; index < count; index++) {
+    const entry = {
+      source: SOURCE,
+      actor: ACTOR,
+      action: '0x12345678',
+      targetId: ethers.id(`tx-${index}`),
+      timestamp: 1_700_000_000 + index
+    };
+    prevHash = computeAuditEntryHash(prevHash, entry);
+    entries.push({ ...entry, index, entryHash: prevHash });
+  }
+  return entries;
+}
+
+describe('verifyAuditChain', () => {
+  it('accepts an untouched chain and reports its head', () => {
+    const entries = buildChain(3);
+    expect(verifyAuditChain(entries)).toEqual({
+      valid: true,
+      entryCount: 3,
+      headHash: entries[2].entryHash,
+      firstInvalidIndex: null
+    });
+  });
+
+  it('treats an empty log as valid with a zero head hash', () => {
+    expect(verifyAuditChain([])).toEqual({ valid: true, entryCount: 0, headHash: ethers.ZeroHash, firstInvalidIndex: null });
+  });
+
+  it('points at the first rewritten entry', () => {
+    const entries = buildChain(3);
+    entries[1] = { ...entries[1], actor: ethers.Wallet.createRandom().address };
+
+    expect(verifyAuditChain(entries)).toEqual({
+      valid: false,
+      entryCount: 3,
+      headHash: entries[0].entryHash,
+      firstInvalidIndex: 1
+    });
+  });
+
+  it('detects a removed entry', () => {
+    const entries = buildChain(3);
+    expect(verifyAuditChain([entries[0], entries[2]]).firstInvalidIndex).toBe(1);
+  });
+});
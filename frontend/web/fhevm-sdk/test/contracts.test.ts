@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fetchAllPages } from '../src/core/contracts.js';
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Paginated view over `total` rows that caps each page like AmlScanFHE does
+ */
+function cappedView(total: number) {
+  const rows = Array.from({ length: total }, (_, i) => i);
+  return vi.fn(async (offset: number, limit: number): Promise<[number[], bigint]> => [
+    rows.slice(offset, offset + Math.min(limit, MAX_PAGE_SIZE)),
+    BigInt(total)
+  ]);
+}
+
+describe('fetchAllPages', () => {
+  it('loads every row when the contract returns shorter pages than requested', async () => {
+    const view = cappedView(250);
+    const items = await fetchAllPages(view, 500);
+
+    expect(items).toEqual(Array.from({ length: 250 }, (_, i) => i));
+    expect(view.mock.calls.map(([offset]) => offset)).toEqual([0, 100, 200]);
+  });
+
+  it('stops on an empty page', async () => {
+    const view = vi.fn(async (): Promise<[number[], bigint]> => [[], 10n]);
+    await expect(fetchAllPages(view)).resolves.toEqual([]);
+    expect(view).toHaveBeenCalledTimes(1);
+  });
+});
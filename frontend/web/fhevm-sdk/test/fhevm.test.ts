@@ -0,0 +1,218 @@
+import { ethers } from 'ethers';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DelegationExpiredError, InvalidRelayerResponseError, SdkError } from '../src/core/errors.js';
+import {
+  buildEncryptedInput,
+  decryptValue,
+  initializeFheInstance,
+  MAX_ENCRYPTED_INPUT_BITS,
+  publicDecrypt
+} from '../src/core/fhevm.js';
+import type { DecryptionSession } from '../src/core/session.js';
+
+const CONTRACT = ethers.Wallet.createRandom().address;
+const USER = ethers.Wallet.createRandom().address;
+
+/**
+ * Ciphertext handle whose byte 30 carries the FHE type id
+ */
+function handle(index: number, typeId: number): string {
+  const bytes = new Uint8Array(32);
+  bytes[0] = index;
+  bytes[30] = typeId;
+  return ethers.hexlify(bytes);
+}
+
+const BOOL = 0;
+const U64 = 5;
+const ADDRESS = 7;
+
+let encryptResult: unknown;
+const added: Array<[string, unknown]> = [];
+const fhe = {
+  createEncryptedInput: vi.fn(() => {
+    const input: Record<string, unknown> = { encrypt: async () => encryptResult };
+    for (const method of ['addBool', 'add8', 'add16', 'add32', 'add64', 'add128', 'add256', 'addAddress']) {
+      input[method] = (value: unknown) => added.push([method, value]);
+    }
+    return input;
+  }),
+  publicDecrypt: vi.fn(),
+  generateKeypair: () => ({ publicKey: '0x01', privateKey: '0x02' }),
+  createEIP712: vi.fn(() => ({ domain: {}, types: { UserDecryptRequestVerification: [] }, message: {} })),
+  userDecrypt: vi.fn()
+};
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.stubGlobal('window', {
+    ethereum: {},
+    RelayerSDK: { initSDK: async () => {}, createInstance: async () => fhe, SepoliaConfig: {} }
+  });
+  await initializeFheInstance();
+});
+
+beforeEach(() => {
+  added.length = 0;
+  fhe.publicDecrypt.mockReset();
+  fhe.userDecrypt.mockReset();
+  fhe.createEIP712.mockClear();
+});
+
+describe('EncryptedInputBuilder', () => {
+  it('rejects values outside the range of their type', () => {
+    const builder = buildEncryptedInput(CONTRACT, USER);
+    expect(() => builder.u8(256)).toThrow(SdkError);
+    expect(() => builder.u32(-1)).toThrow('out of range');
+    expect(() => builder.u64(2 ** 53)).toThrow('safe integer');
+    expect(() => builder.u64((1n << 64n) - 1n)).not.toThrow();
+    expect(() => builder.bool(1 as unknown as boolean)).toThrow('must be a boolean');
+    expect(() => builder.address('0x1234')).toThrow('not a valid address');
+    expect(builder.size).toBe(1);
+  });
+
+  it('keeps the input within the relayer bit limit', () => {
+    const builder = buildEncryptedInput(CONTRACT, USER);
+    for (let i = 0; i < MAX_ENCRYPTED_INPUT_BITS / 256; i++) builder.u256(i);
+    expect(builder.totalBits).toBe(MAX_ENCRYPTED_INPUT_BITS);
+    expect(() => builder.bool(true)).toThrow(`at most ${MAX_ENCRYPTED_INPUT_BITS}`);
+    expect(builder.size).toBe(MAX_ENCRYPTED_INPUT_BITS / 256);
+  });
+
+  it('refuses to encrypt an empty input', async () => {
+    await expect(buildEncryptedInput(CONTRACT, USER).encrypt()).rejects.toThrow('empty');
+  });
+
+  it('converts byte handles and proof to hex and tags each handle with its type', async () => {
+    encryptResult = { handles: [new Uint8Array(32).fill(1), new Uint8Array(32).fill(2)], inputProof: new Uint8Array([0xca, 0xfe]) };
+
+    const bundle = await buildEncryptedInput(CONTRACT, USER).u64(5n).bool(false).encrypt();
+    expect(added).toEqual([
+      ['add64', 5n],
+      ['addBool', false]
+    ]);
+    expect(bundle).toEqual({
+      handles: [
+        { type: 'u64', handle: '0x' + '01'.repeat(32) },
+        { type: 'bool', handle: '0x' + '02'.repeat(32) }
+      ],
+      proof: '0xcafe'
+    });
+  });
+
+  it('rejects relayer results with the wrong handle count or non-byte values', async () => {
+    encryptResult = { handles: ['0x01'], inputProof: '0x02' };
+    await expect(buildEncryptedInput(CONTRACT, USER).u32(1).u32(2).encrypt()).rejects.toBeInstanceOf(
+      InvalidRelayerResponseError
+    );
+
+    encryptResult = { handles: ['0x01'], inputProof: 'not hex' };
+    await expect(buildEncryptedInput(CONTRACT, USER).u32(1).encrypt()).rejects.toThrow('must be bytes');
+
+    encryptResult = undefined;
+    await expect(buildEncryptedInput(CONTRACT, USER).u32(1).encrypt()).rejects.toBeInstanceOf(
+      InvalidRelayerResponseError
+    );
+  });
+});
+
+describe('publicDecrypt', () => {
+  const amount = handle(1, U64);
+  const flag = handle(2, BOOL);
+  const owner = handle(3, ADDRESS);
+  const account = ethers.Wallet.createRandom().address;
+
+  it('ABI-encodes the clear values with the type of each handle', async () => {
+    fhe.publicDecrypt.mockResolvedValue({
+      clearValues: { [amount]: 2n ** 60n, [flag]: 1n, [owner]: account.toLowerCase() },
+      decryptionProof: '0x1234'
+    });
+
+    const result = await publicDecrypt([amount, { handle: flag, type: 'bool' }, owner]);
+    expect(result.clearValues).toEqual({ [amount]: 2n ** 60n, [flag]: true, [owner]: account });
+    expect(result.abiEncodedClearValues).toBe(
+      ethers.AbiCoder.defaultAbiCoder().encode(['uint64', 'bool', 'address'], [2n ** 60n, true, account])
+    );
+    expect(result.decryptionProof).toBe('0x1234');
+  });
+
+  it('rejects results without a decryption proof', async () => {
+    fhe.publicDecrypt.mockResolvedValue({ clearValues: { [amount]: 1n }, decryptionProof: '0x' });
+    await expect(publicDecrypt([amount])).rejects.toThrow('no decryption proof');
+  });
+
+  it('rejects relayer encodings that do not match the decrypted values', async () => {
+    fhe.publicDecrypt.mockResolvedValue({
+      clearValues: { [amount]: 1n },
+      abiEncodedClearValues: ethers.AbiCoder.defaultAbiCoder().encode(['uint64'], [2n]),
+      decryptionProof: '0x1234'
+    });
+    await expect(publicDecrypt([amount])).rejects.toThrow('do not match');
+  });
+
+  it('rejects clear values that do not fit the handle type', async () => {
+    fhe.publicDecrypt.mockResolvedValue({ clearValues: { [flag]: 2n }, decryptionProof: '0x1234' });
+    await expect(publicDecrypt([flag])).rejects.toBeInstanceOf(InvalidRelayerResponseError);
+  });
+
+  it('checks typed handles and needs at least one handle', async () => {
+    await expect(publicDecrypt([{ handle: amount, type: 'u32' }])).rejects.toThrow('expected u32');
+    await expect(publicDecrypt([])).rejects.toThrow('at least one handle');
+    expect(fhe.publicDecrypt).not.toHaveBeenCalled();
+  });
+});
+
+describe('decryptValue with a delegation', () => {
+  const transactionId = ethers.id('tx-1');
+  const score = handle(1, U64);
+  const signer = { getAddress: async () => USER, signTypedData: async () => '0x' + 'ab'.repeat(65) };
+
+  function delegatedContract(expiresAt: number, isActive = true) {
+    const claimDelegatedAccess = vi.fn(async () => ({ wait: async () => {} }));
+    const contract = {
+      getDelegation: async () => ({ expiresAt: BigInt(expiresAt), revoked: false }),
+      isDelegationActive: async () => isActive,
+      claimDelegatedAccess
+    } as unknown as ethers.Contract;
+    return { contract, claimDelegatedAccess };
+  }
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  it('claims the ACL grant once the relayer denies the delegate and signs for the remaining days', async () => {
+    const { contract, claimDelegatedAccess } = delegatedContract(now() + 3600);
+    fhe.userDecrypt
+      .mockRejectedValueOnce(new Error(`User ${USER} is not authorized to user decrypt handle ${score}!`))
+      .mockResolvedValueOnce({ [score]: 42n });
+
+    await expect(decryptValue(score, CONTRACT, signer, { contract, transactionId })).resolves.toBe(42);
+    expect(claimDelegatedAccess).toHaveBeenCalledWith(transactionId);
+    expect(fhe.createEIP712).toHaveBeenCalledWith('0x01', [CONTRACT], expect.any(String), '1');
+  });
+
+  it('refuses to reuse a session that outlives the delegation', async () => {
+    const { contract } = delegatedContract(now() + 3600);
+    const session = { expiresAt: now() + 2 * 86400, decrypt: vi.fn() } as unknown as DecryptionSession;
+
+    await expect(decryptValue(score, CONTRACT, signer, { contract, transactionId }, session)).rejects.toThrow(
+      'outlives the delegation'
+    );
+    expect(session.decrypt).not.toHaveBeenCalled();
+  });
+
+  it('decrypts through a session that ends within the delegation', async () => {
+    const { contract } = delegatedContract(now() + 3600);
+    const decrypt = vi.fn(async () => ({ [score]: 7n }));
+    const session = { expiresAt: now() + 86400, decrypt } as unknown as DecryptionSession;
+
+    await expect(decryptValue(score, CONTRACT, signer, { contract, transactionId }, session)).resolves.toBe(7);
+  });
+
+  it('refuses an expired delegation without claiming it', async () => {
+    const { contract, claimDelegatedAccess } = delegatedContract(now() - 1, false);
+    await expect(decryptValue(score, CONTRACT, signer, { contract, transactionId })).rejects.toBeInstanceOf(
+      DelegationExpiredError
+    );
+    expect(claimDelegatedAccess).not.toHaveBeenCalled();
+  });
+});
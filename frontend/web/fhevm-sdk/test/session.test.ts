@@ -0,0 +1,170 @@
+import 'fake-indexeddb/auto';
+import { openDB } from 'idb';
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DecryptionSessionExpiredError } from '../src/core/errors.js';
+import { chunkPairs, DecryptionSession, MAX_SESSION_CONTRACTS, MAX_USER_DECRYPT_BITS } from '../src/core/session.js';
+import type { SessionStorageLike } from '../src/core/session.js';
+
+const fhe = {
+  generateKeypair: vi.fn(() => ({ publicKey: '0x01', privateKey: 'private-key-material' })),
+  createEIP712: vi.fn(() => ({ domain: {}, types: { UserDecryptRequestVerification: [] }, message: {} })),
+  userDecrypt: vi.fn(async (pairs: Array<{ handle: string }>) =>
+    Object.fromEntries(pairs.map(({ handle }) => [handle, 7n]))
+  )
+};
+
+vi.mock('../src/core/fhevm.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../src/core/fhevm.js')>()),
+  getFheInstance: () => fhe
+}));
+
+const USER = ethers.Wallet.createRandom().address;
+const CONTRACT = ethers.Wallet.createRandom().address;
+
+/**
+ * Ciphertext handle whose byte 30 carries the FHE type id
+ */
+function handle(index: number, typeId: number): string {
+  const bytes = new Uint8Array(32);
+  bytes[0] = index & 0xff;
+  bytes[1] = index >> 8;
+  bytes[30] = typeId;
+  return ethers.hexlify(bytes);
+}
+
+const U64 = 5;
+const U256 = 8;
+
+function fakeSigner() {
+  const signTypedData = vi.fn(async () => '0x' + 'ab'.repeat(65));
+  const signer = { getAddress: async () => USER, signTypedData } as unknown as ethers.Signer;
+  return { signer, signTypedData };
+}
+
+/**
+ * SessionStorageLike backed by IndexedDB, as a browser app would persist sessions across reloads
+ */
+async function indexedDbStorage(): Promise<SessionStorageLike> {
+  const db = await openDB(`sessions-${Math.random()}`, 1, {
+    upgrade(database) {
+      database.createObjectStore('sessions');
+    }
+  });
+  return {
+    getItem: async key => (await db.get('sessions', key)) ?? null,
+    setItem: async (key, value) => {
+      await db.put('sessions', value, key);
+    },
+    removeItem: key => db.delete('sessions', key)
+  };
+}
+
+describe('DecryptionSession', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores the keypair encrypted and resumes it without signing again', async () => {
+    const storage = await indexedDbStorage();
+    const persist = { storage, passphrase: 'correct horse' };
+    const { signer, signTypedData } = fakeSigner();
+
+    const first = await DecryptionSession.open(signer, { contractAddresses: [CONTRACT], durationDays: 1, persist });
+    const sealed = await storage.getItem(`fhevm-sdk:decryption-session:${USER.toLowerCase()}`);
+    expect(sealed).toBeTypeOf('string');
+    expect(sealed).not.toContain('private-key-material');
+    expect(JSON.parse(sealed!)).toMatchObject({ version: 1 });
+
+    const resumed = await DecryptionSession.open(signer, { contractAddresses: [CONTRACT.toLowerCase()], persist });
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+    expect(resumed.expiresAt).toBe(first.expiresAt);
+    expect(resumed.covers(CONTRACT)).toBe(true);
+  });
+
+  it('signs a new session when the passphrase does not open the stored one', async () => {
+    const storage = await indexedDbStorage();
+    const { signer, signTypedData } = fakeSigner();
+
+    await DecryptionSession.open(signer, { contractAddresses: [CONTRACT], persist: { storage, passphrase: 'one' } });
+    await DecryptionSession.open(signer, { contractAddresses: [CONTRACT], persist: { storage, passphrase: 'two' } });
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('signs a new session once the stored one has expired', async () => {
+    const storage = await indexedDbStorage();
+    const persist = { storage, passphrase: 'correct horse' };
+    const { signer, signTypedData } = fakeSigner();
+
+    const stale = await DecryptionSession.open(signer, { contractAddresses: [CONTRACT], durationDays: 1, persist });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime((stale.expiresAt + 1) * 1000);
+
+    const fresh = await DecryptionSession.open(signer, { contractAddresses: [CONTRACT], durationDays: 1, persist });
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+    expect(fresh.expiresAt).toBeGreaterThan(stale.expiresAt);
+  });
+
+  it('refuses to decrypt after expiry and treats the margin as expired', async () => {
+    const { signer } = fakeSigner();
+    const session = await DecryptionSession.open(signer, { contractAddresses: [CONTRACT], durationDays: 1 });
+    const value = handle(1, U64);
+
+    await expect(session.decrypt([value], CONTRACT)).resolves.toEqual({ [value]: 7n });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime((session.expiresAt - 60) * 1000);
+    expect(session.isExpired()).toBe(false);
+    expect(session.isExpired(300)).toBe(true);
+
+    vi.setSystemTime(session.expiresAt * 1000);
+    await expect(session.decrypt([value], CONTRACT)).rejects.toBeInstanceOf(DecryptionSessionExpiredError);
+  });
+
+  it('forgets the stored session on clear', async () => {
+    const storage = await indexedDbStorage();
+    const { signer } = fakeSigner();
+    const session = await DecryptionSession.open(signer, {
+      contractAddresses: [CONTRACT],
+      persist: { storage, passphrase: 'correct horse', key: 'session' }
+    });
+
+    await session.clear();
+    expect(await storage.getItem('session')).toBeNull();
+  });
+});
+
+describe('chunkPairs', () => {
+  it('splits on the bit limit of one user decryption request', () => {
+    const perChunk = MAX_USER_DECRYPT_BITS / 256;
+    const pairs = Array.from({ length: perChunk + 1 }, (_, i) => ({ handle: handle(i, U256), contractAddress: CONTRACT }));
+
+    const chunks = chunkPairs(pairs);
+    expect(chunks.map(chunk => chunk.length)).toEqual([perChunk, 1]);
+  });
+
+  it('splits on the number of contracts one request may list', () => {
+    const contracts = Array.from({ length: MAX_SESSION_CONTRACTS + 1 }, () => ethers.Wallet.createRandom().address);
+    const pairs = contracts.map((contractAddress, i) => ({ handle: handle(i, U64), contractAddress }));
+
+    const chunks = chunkPairs(pairs);
+    expect(chunks.map(chunk => chunk.length)).toEqual([MAX_SESSION_CONTRACTS, 1]);
+    expect(chunks[1][0].contractAddress).toBe(contracts[MAX_SESSION_CONTRACTS]);
+  });
+
+  it('normalizes contract addresses and drops duplicate pairs', () => {
+    const value = handle(1, U64);
+    const chunks = chunkPairs([
+      { handle: value, contractAddress: CONTRACT.toLowerCase() },
+      { handle: value, contractAddress: CONTRACT }
+    ]);
+    expect(chunks).toEqual([[{ handle: value, contractAddress: CONTRACT }]]);
+  });
+
+  it('rejects handles of unsupported types', () => {
+    expect(() => chunkPairs([{ handle: handle(1, 1), contractAddress: CONTRACT }])).toThrow('Unsupported FHE type');
+  });
+});
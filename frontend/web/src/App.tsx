@@ -1,25 +1,66 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import { ethers } from "ethers";
+import {
+  getCaseManagerReadOnly,
+  getCaseManagerWithSigner,
+  getContractReadOnly,
+  getContractWithSigner,
+  getRiskTiersWithSigner
+} from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import {
+  useFhevm,
+  useEncrypt,
+  useDecrypt,
+  useDecryptionSession,
+  buildSarReport,
+  hashSarReport,
+  recordSarGeneration,
+  renderSarHtml,
+  serializeSarReport,
+  fetchAllPages,
+  CASE_STATUS_LABELS,
+  RULE_KIND_LABELS,
+  loadRiskBands,
+  batchDecryptValues,
+  AccessDeniedError
+} from '../fhevm-sdk/src';
+import type { ClearValue, RiskBand } from '../fhevm-sdk/src';
 
 interface TransactionData {
   id: string;
   from: string;
   to: string;
-  amount: number;
   timestamp: number;
   riskScore: number;
-  encryptedRisk: string;
   isVerified: boolean;
   decryptedValue?: number;
-  description: string;
   status: 'pending' | 'cleared' | 'suspicious';
 }
 
+interface RuleData {
+  id: string;
+  kind: string;
+  version: number;
+  activeFrom: number;
+  activeUntil: number;
+  status: 'active' | 'scheduled' | 'expired' | 'disabled';
+}
+
+interface CaseInfo {
+  caseId: bigint;
+  status: string;
+  isDisclosed: boolean;
+}
+
+interface PrivateValues {
+  amount: bigint;
+  riskScore: number;
+}
+
 interface RiskStats {
   totalTransactions: number;
   suspiciousCount: number;
@@ -31,6 +72,7 @@ const App: React.FC = () => {
   const { address, isConnected } = useAccount();
   const [loading, setLoading] = useState(true);
   const [transactions, setTransactions] = useState<TransactionData[]>([]);
+  const [rules, setRules] = useState<RuleData[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creatingTransaction, setCreatingTransaction] = useState(false);
@@ -42,11 +84,19 @@ const App: React.FC = () => {
   const [newTransactionData, setNewTransactionData] = useState({ 
     from: "", 
     to: "", 
-    amount: "", 
-    description: "" 
+    amount: "",
+    geography: "",
+    counterpartyRisk: "",
+    velocity: ""
   });
   const [selectedTransaction, setSelectedTransaction] = useState<TransactionData | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
+  const [selectedCase, setSelectedCase] = useState<CaseInfo | null>(null);
+  const [isGeneratingSar, setIsGeneratingSar] = useState(false);
+  const [isDisclosing, setIsDisclosing] = useState(false);
+  const [privateValues, setPrivateValues] = useState<Record<string, PrivateValues>>({});
+  const [riskBands, setRiskBands] = useState<RiskBand[]>([]);
+  const [isLoadingBands, setIsLoadingBands] = useState(false);
   const [contractAddress, setContractAddress] = useState("");
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
@@ -55,8 +105,12 @@ const App: React.FC = () => {
   const [userHistory, setUserHistory] = useState<string[]>([]);
 
   const { status, initialize, isInitialized } = useFhevm();
-  const { encrypt, isEncrypting} = useEncrypt();
+  const { encryptMany, isEncrypting } = useEncrypt();
   const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  // One signature covers every private decryption until the session expires
+  const { getSession: getDecryptionSession } = useDecryptionSession({
+    contractAddresses: contractAddress ? [contractAddress] : []
+  });
 
   useEffect(() => {
     const initFhevmAfterConnection = async () => {
@@ -103,6 +157,32 @@ const App: React.FC = () => {
     loadDataAndContract();
   }, [isConnected]);
 
+  useEffect(() => {
+    const loadCase = async () => {
+      setSelectedCase(null);
+      if (!selectedTransaction) return;
+
+      try {
+        const caseManager = await getCaseManagerReadOnly();
+        if (!caseManager) return;
+
+        const caseId: bigint = await caseManager.getCaseIdByTransaction(selectedTransaction.id);
+        if (caseId === 0n) return;
+
+        const caseData = await caseManager.getCase(caseId);
+        setSelectedCase({
+          caseId,
+          status: CASE_STATUS_LABELS[Number(caseData.status)],
+          isDisclosed: await caseManager.isDisclosed(caseId)
+        });
+      } catch (error) {
+        console.error('Failed to load case:', error);
+      }
+    };
+
+    loadCase();
+  }, [selectedTransaction]);
+
   const loadData = async () => {
     if (!isConnected) return;
     
@@ -111,31 +191,39 @@ const App: React.FC = () => {
       const contract = await getContractReadOnly();
       if (!contract) return;
       
-      const businessIds = await contract.getAllBusinessIds();
-      const transactionsList: TransactionData[] = [];
+      const records = await fetchAllPages<any>(async (offset, limit) => {
+        const [page, total] = await contract.getTransactions(offset, limit);
+        return [[...page], total];
+      });
       
-      for (const businessId of businessIds) {
-        try {
-          const businessData = await contract.getBusinessData(businessId);
-          transactionsList.push({
-            id: businessId,
-            from: businessData.name,
-            to: businessData.description,
-            amount: Number(businessData.publicValue1) || 0,
-            timestamp: Number(businessData.timestamp),
-            riskScore: calculateRiskScore(Number(businessData.publicValue1), Number(businessData.publicValue2)),
-            encryptedRisk: businessId,
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0,
-            description: businessData.description,
-            status: getStatusFromRisk(Number(businessData.publicValue1))
-          });
-        } catch (e) {
-          console.error('Error loading business data:', e);
-        }
-      }
+      const transactionsList: TransactionData[] = records.map(record => {
+        const decryptedRiskScore = Number(record.decryptedRiskScore) || 0;
+        return {
+          id: record.id,
+          from: record.sender,
+          to: record.receiver,
+          timestamp: Number(record.timestamp),
+          riskScore: decryptedRiskScore,
+          isVerified: record.isVerified,
+          decryptedValue: decryptedRiskScore,
+          status: getStatus(record.isFlagged, record.isVerified)
+        };
+      });
       
       setTransactions(transactionsList);
+
+      const ruleRecords = await fetchAllPages<any>(async (offset, limit) => {
+        const [page, total] = await contract.getRiskRules(offset, limit);
+        return [[...page], total];
+      });
+      setRules(ruleRecords.map(record => ({
+        id: record.id,
+        kind: RULE_KIND_LABELS[Number(record.kind)] ?? String(record.kind),
+        version: Number(record.version),
+        activeFrom: Number(record.activeFrom),
+        activeUntil: Number(record.activeUntil),
+        status: getRuleStatus(record.enabled, record.isActive, Number(record.activeFrom))
+      })));
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -144,14 +232,32 @@ const App: React.FC = () => {
     }
   };
 
-  const calculateRiskScore = (amount: number, value2: number): number => {
-    return Math.min(100, Math.round((amount * 0.7 + value2 * 0.3) * 0.1));
+  // Amount band factor (0-100) for the on-chain scoring model; the score itself is computed by the contract
+  const getAmountBand = (amount: number): number => {
+    if (amount >= 100000) return 100;
+    if (amount >= 10000) return 70;
+    if (amount >= 1000) return 40;
+    return 10;
+  };
+
+  const parseFactor = (value: string): number => Math.min(100, Math.max(0, parseInt(value) || 0));
+
+  const getStatus = (isFlagged: boolean, isVerified: boolean): 'pending' | 'cleared' | 'suspicious' => {
+    if (isFlagged) return 'suspicious';
+    if (isVerified) return 'cleared';
+    return 'pending';
+  };
+
+  const getRuleStatus = (enabled: boolean, isActive: boolean, activeFrom: number): RuleData['status'] => {
+    if (!enabled) return 'disabled';
+    if (isActive) return 'active';
+    return activeFrom * 1000 > Date.now() ? 'scheduled' : 'expired';
   };
 
-  const getStatusFromRisk = (amount: number): 'pending' | 'cleared' | 'suspicious' => {
-    if (amount > 5000) return 'suspicious';
-    if (amount > 1000) return 'pending';
-    return 'cleared';
+  const formatRuleWindow = (rule: RuleData): string => {
+    const from = rule.activeFrom > 0 ? new Date(rule.activeFrom * 1000).toLocaleDateString() : 'now';
+    const until = rule.activeUntil > 0 ? new Date(rule.activeUntil * 1000).toLocaleDateString() : 'open-ended';
+    return `${from} → ${until}`;
   };
 
   const createTransaction = async () => {
@@ -168,20 +274,27 @@ const App: React.FC = () => {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
-      const amountValue = parseInt(newTransactionData.amount) || 0;
-      const businessId = `tx-${Date.now()}`;
-      const riskScore = calculateRiskScore(amountValue, 0);
+      const amountValue = BigInt(parseInt(newTransactionData.amount) || 0);
+      const transactionId = ethers.id(`tx-${Date.now()}`);
+      const factors = [
+        getAmountBand(Number(amountValue)),
+        parseFactor(newTransactionData.geography),
+        parseFactor(newTransactionData.counterpartyRisk),
+        parseFactor(newTransactionData.velocity)
+      ];
       
-      const encryptedResult = await encrypt(contractAddress, address, riskScore);
+      const encryptedResult = await encryptMany(contractAddress, address, [
+        { value: amountValue, bits: 64 },
+        ...factors.map(value => ({ value, bits: 32 as const }))
+      ]);
       
-      const tx = await contract.createBusinessData(
-        businessId,
+      const tx = await contract.recordScoredTransaction(
+        transactionId,
         newTransactionData.from,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
-        amountValue,
-        riskScore,
-        newTransactionData.to
+        newTransactionData.to,
+        encryptedResult.handles[0],
+        encryptedResult.handles.slice(1),
+        encryptedResult.proof
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
@@ -196,7 +309,7 @@ const App: React.FC = () => {
       
       await loadData();
       setShowCreateModal(false);
-      setNewTransactionData({ from: "", to: "", amount: "", description: "" });
+      setNewTransactionData({ from: "", to: "", amount: "", geography: "", counterpartyRisk: "", velocity: "" });
     } catch (e: any) {
       const errorMessage = e.message?.includes("user rejected transaction") 
         ? "Transaction rejected by user" 
@@ -208,8 +321,8 @@ const App: React.FC = () => {
     }
   };
 
-  const decryptData = async (businessId: string): Promise<number | null> => {
-    if (!isConnected || !address) { 
+  const decryptData = async (transactionId: string): Promise<number | null> => {
+    if (!isConnected || !address || !window.ethereum) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
@@ -220,64 +333,43 @@ const App: React.FC = () => {
       const contractRead = await getContractReadOnly();
       if (!contractRead) return null;
       
-      const businessData = await contractRead.getBusinessData(businessId);
-      if (businessData.isVerified) {
-        const storedValue = Number(businessData.decryptedValue) || 0;
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "Risk score already verified on-chain" 
-        });
-        setTimeout(() => {
-          setTransactionStatus({ visible: false, status: "pending", message: "" });
-        }, 2000);
-        return storedValue;
-      }
-      
-      const contractWrite = await getContractWithSigner();
-      if (!contractWrite) return null;
-      
-      const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner();
+      const { encryptedAmount, encryptedRiskScore } = await contractRead.getEncryptedHandles(transactionId);
+      const handles = [encryptedAmount, encryptedRiskScore];
       
-      const result = await verifyDecryption(
-        [encryptedValueHandle],
-        contractAddress,
-        (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
-      );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption on-chain..." });
-      
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
+      setTransactionStatus({ visible: true, status: "pending", message: "Sign the decryption request in your wallet..." });
+      const session = await getDecryptionSession(signer);
+      let values: Record<string, ClearValue>;
+      try {
+        values = await batchDecryptValues(handles, contractAddress, signer, session);
+      } catch (error) {
+        // Reporters are granted access when recording; auditors have to request it once per transaction
+        if (!(error instanceof AccessDeniedError)) throw error;
+        setTransactionStatus({ visible: true, status: "pending", message: "Requesting decryption access..." });
+        const contractWrite = await getContractWithSigner();
+        const grantTx = await contractWrite.grantDecryptionAccess(transactionId, true);
+        await grantTx.wait();
+        values = await batchDecryptValues(handles, contractAddress, signer, session);
+      }
       
-      await loadData();
-      setUserHistory(prev => [...prev, `Decrypted risk score for transaction: ${businessId}`]);
+      const riskScore = Number(values[encryptedRiskScore]);
+      setPrivateValues(prev => ({ ...prev, [transactionId]: { amount: values[encryptedAmount] as bigint, riskScore } }));
+      setUserHistory(prev => [...prev, `Privately decrypted transaction: ${transactionId}`]);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Risk score decrypted and verified!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Decrypted privately - only you can see these values" });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
       
-      return Number(clearValue);
+      return riskScore;
       
     } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "Data is already verified on-chain" 
-        });
-        setTimeout(() => {
-          setTransactionStatus({ visible: false, status: "pending", message: "" });
-        }, 2000);
-        await loadData();
-        return null;
-      }
-      
       setTransactionStatus({ 
         visible: true, 
         status: "error", 
-        message: "Decryption failed: " + (e.message || "Unknown error") 
+        message: e.revert?.name === "MissingRole" 
+          ? "Only the reporter and auditors may decrypt this transaction" 
+          : "Decryption failed: " + (e.message || "Unknown error") 
       });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
@@ -286,6 +378,95 @@ const App: React.FC = () => {
     }
   };
 
+  const discloseCase = async () => {
+    if (!selectedCase || !selectedTransaction) return;
+
+    setIsDisclosing(true);
+    setTransactionStatus({ visible: true, status: "pending", message: `Disclosing case #${selectedCase.caseId}...` });
+    try {
+      const caseContract = await getCaseManagerWithSigner();
+      const discloseTx = await caseContract.discloseCase(selectedCase.caseId);
+      await discloseTx.wait();
+      setSelectedCase({ ...selectedCase, isDisclosed: true });
+      setUserHistory(prev => [...prev, `Disclosed risk score for case #${selectedCase.caseId}`]);
+
+      // Disclosing needs the officer role but verifyDecryption the auditor role; officers leave verification to auditors
+      let message = "Risk score disclosed; an auditor can verify it on-chain";
+      const contractRead = await getContractReadOnly();
+      if (contractRead && address && await contractRead.hasRole(await contractRead.AUDITOR_ROLE(), address)) {
+        try {
+          const contractWrite = await getContractWithSigner();
+          if (!contractWrite) throw new Error("Failed to get contract");
+
+          setTransactionStatus({ visible: true, status: "pending", message: "Verifying disclosed risk score on-chain..." });
+          const { encryptedRiskScore } = await contractRead.getEncryptedHandles(selectedTransaction.id);
+          await verifyDecryption(
+            [encryptedRiskScore],
+            contractAddress,
+            (abiEncodedClearValues: string, decryptionProof: string) => 
+              contractWrite.verifyDecryption(selectedTransaction.id, abiEncodedClearValues, decryptionProof, true)
+          );
+          message = "Risk score disclosed and verified!";
+        } catch (e: any) {
+          message = "Risk score disclosed, but verification failed: " + (e.message || "Unknown error");
+        }
+      }
+
+      await loadData();
+      setTransactionStatus({ visible: true, status: "success", message });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Disclosure failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setIsDisclosing(false);
+    }
+  };
+
+  const downloadFile = (content: string, fileName: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const generateSar = async () => {
+    if (!selectedCase || !window.ethereum) return;
+
+    setIsGeneratingSar(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Building Suspicious Activity Report..." });
+    try {
+      const amlContract = await getContractReadOnly();
+      const caseContract = await getCaseManagerWithSigner();
+      if (!amlContract) throw new Error("Failed to get contract");
+
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner();
+      const report = await buildSarReport({ amlContract, caseContract, caseId: selectedCase.caseId, signer });
+      const reportHash = hashSarReport(report);
+
+      setTransactionStatus({ visible: true, status: "pending", message: "Recording report hash on-chain..." });
+      await recordSarGeneration(caseContract, selectedCase.caseId, reportHash);
+
+      downloadFile(serializeSarReport(report), `sar-case-${selectedCase.caseId}.json`, "application/json");
+      const printWindow = window.open("", "_blank");
+      if (printWindow) {
+        printWindow.document.write(renderSarHtml(report, reportHash));
+        printWindow.document.close();
+      }
+
+      setUserHistory(prev => [...prev, `Generated SAR for case #${selectedCase.caseId}`]);
+      setTransactionStatus({ visible: true, status: "success", message: "SAR generated and recorded!" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "SAR generation failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setIsGeneratingSar(false);
+    }
+  };
+
   const checkAvailability = async () => {
     try {
       const contract = await getContractReadOnly();
@@ -326,9 +507,31 @@ const App: React.FC = () => {
       (transactions.filter(t => t.isVerified).length / transactions.length) * 100 : 0
   };
 
+  const loadTierBands = async () => {
+    if (!isConnected || !window.ethereum) return;
+
+    setIsLoadingBands(true);
+    try {
+      const tierContract = await getRiskTiersWithSigner();
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner();
+      setRiskBands(await loadRiskBands(tierContract, signer));
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Failed to load risk tiers: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setIsLoadingBands(false);
+    }
+  };
+
+  const getBandClass = (band: RiskBand): 'low' | 'medium' | 'high' => {
+    if (band.isHighRisk) return 'high';
+    return band.tier === 0 ? 'low' : 'medium';
+  };
+
   const renderRiskChart = (transaction: TransactionData) => {
     const riskValue = transaction.isVerified ? 
-      (transaction.decryptedValue || transaction.riskScore) : transaction.riskScore;
+      (transaction.decryptedValue || transaction.riskScore) : (privateValues[transaction.id]?.riskScore ?? transaction.riskScore);
+    const band = riskBands.find(b => riskValue >= b.min && riskValue <= b.max);
     
     return (
       <div className="risk-chart">
@@ -336,7 +539,7 @@ const App: React.FC = () => {
           <div className="chart-label">Risk Score</div>
           <div className="chart-bar">
             <div 
-              className={`bar-fill ${riskValue > 70 ? 'high-risk' : riskValue > 30 ? 'medium-risk' : 'low-risk'}`}
+              className={`bar-fill ${band ? `${getBandClass(band)}-risk` : ''}`}
               style={{ width: `${riskValue}%` }}
             >
               <span className="bar-value">{riskValue}</span>
@@ -344,9 +547,17 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="risk-indicators">
-          <div className="indicator low">Low (0-30)</div>
-          <div className="indicator medium">Medium (31-70)</div>
-          <div className="indicator high">High (71-100)</div>
+          {riskBands.length === 0 ? (
+            <button className="load-tiers-btn" onClick={loadTierBands} disabled={isLoadingBands}>
+              {isLoadingBands ? "Decrypting tiers..." : "🔓 Load risk tiers"}
+            </button>
+          ) : (
+            riskBands.map(b => (
+              <div key={b.tier} className={`indicator ${getBandClass(b)}`}>
+                {b.label} ({b.min}-{b.max})
+              </div>
+            ))
+          )}
         </div>
       </div>
     );
@@ -504,14 +715,14 @@ const App: React.FC = () => {
                   onClick={() => setSelectedTransaction(transaction)}
                 >
                   <div className="transaction-header">
-                    <span className="transaction-id">#{transaction.id}</span>
+                    <span className="transaction-id">#{transaction.id.slice(0, 10)}…</span>
                     <span className={`status-badge ${transaction.status}`}>
                       {transaction.status}
                     </span>
                   </div>
                   <div className="transaction-details">
                     <span>{transaction.from} → {transaction.to}</span>
-                    <span>Amount: {transaction.amount}</span>
+                    <span>Amount: 🔒 Encrypted</span>
                   </div>
                   <div className="transaction-footer">
                     <span>{new Date(transaction.timestamp * 1000).toLocaleDateString()}</span>
@@ -542,6 +753,32 @@ const App: React.FC = () => {
           )}
         </div>
 
+        <div className="rules-section">
+          <h2>Risk Rules</h2>
+          <div className="rules-list">
+            {rules.length === 0 ? (
+              <div className="no-transactions">
+                <p>No rules registered</p>
+              </div>
+            ) : (
+              rules.map(rule => (
+                <div key={rule.id} className={`rule-item ${rule.status}`}>
+                  <div className="transaction-header">
+                    <span className="transaction-id">#{rule.id.slice(0, 10)}…</span>
+                    <span className={`status-badge ${rule.status}`}>
+                      {rule.status}
+                    </span>
+                  </div>
+                  <div className="transaction-footer">
+                    <span>{rule.kind} · v{rule.version}</span>
+                    <span>{formatRuleWindow(rule)}</span>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
         <div className="history-section">
           <h3>User Activity History</h3>
           <div className="history-list">
@@ -572,6 +809,12 @@ const App: React.FC = () => {
           isDecrypting={isDecrypting || fheIsDecrypting}
           decryptData={() => decryptData(selectedTransaction.id)}
           renderRiskChart={renderRiskChart}
+          privateValues={privateValues[selectedTransaction.id]}
+          caseInfo={selectedCase}
+          isGeneratingSar={isGeneratingSar}
+          generateSar={generateSar}
+          isDisclosing={isDisclosing}
+          discloseCase={discloseCase}
         />
       )}
 
@@ -599,7 +842,7 @@ const ModalCreateTransaction: React.FC<{
   setTransactionData: (data: any) => void;
   isEncrypting: boolean;
 }> = ({ onSubmit, onClose, creating, transactionData, setTransactionData, isEncrypting }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setTransactionData({ ...transactionData, [name]: value });
   };
@@ -615,7 +858,7 @@ const ModalCreateTransaction: React.FC<{
         <div className="modal-body">
           <div className="fhe-notice">
             <strong>🔐 FHE Risk Assessment</strong>
-            <p>Risk scores are encrypted using Zama FHE technology</p>
+            <p>Risk factors are encrypted and scored on-chain with Zama FHE technology</p>
           </div>
           
           <div className="form-group">
@@ -650,18 +893,48 @@ const ModalCreateTransaction: React.FC<{
               placeholder="Transaction amount..." 
               min="0"
             />
-            <div className="data-type-label">FHE Encrypted Risk Calculation</div>
+            <div className="data-type-label">FHE Encrypted (euint64)</div>
           </div>
           
           <div className="form-group">
-            <label>Description</label>
-            <textarea 
-              name="description" 
-              value={transactionData.description} 
+            <label>Geography Risk (0-100)</label>
+            <input 
+              type="number" 
+              name="geography" 
+              value={transactionData.geography} 
               onChange={handleChange} 
-              placeholder="Transaction purpose..." 
+              placeholder="Jurisdiction risk..." 
+              min="0"
+              max="100"
             />
           </div>
+          
+          <div className="form-group">
+            <label>Counterparty Risk (0-100)</label>
+            <input 
+              type="number" 
+              name="counterpartyRisk" 
+              value={transactionData.counterpartyRisk} 
+              onChange={handleChange} 
+              placeholder="Counterparty risk..." 
+              min="0"
+              max="100"
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Velocity (0-100)</label>
+            <input 
+              type="number" 
+              name="velocity" 
+              value={transactionData.velocity} 
+              onChange={handleChange} 
+              placeholder="Recent activity level..." 
+              min="0"
+              max="100"
+            />
+            <div className="data-type-label">FHE Encrypted (euint32) · scored on-chain</div>
+          </div>
         </div>
         
         <div className="modal-footer">
@@ -685,7 +958,27 @@ const TransactionDetailModal: React.FC<{
   isDecrypting: boolean;
   decryptData: () => Promise<number | null>;
   renderRiskChart: (transaction: TransactionData) => JSX.Element;
-}> = ({ transaction, onClose, isDecrypting, decryptData, renderRiskChart }) => {
+  privateValues?: PrivateValues;
+  caseInfo: CaseInfo | null;
+  isGeneratingSar: boolean;
+  generateSar: () => Promise<void>;
+  isDisclosing: boolean;
+  discloseCase: () => Promise<void>;
+}> = ({
+  transaction,
+  onClose,
+  isDecrypting,
+  decryptData,
+  renderRiskChart,
+  privateValues,
+  caseInfo,
+  isGeneratingSar,
+  generateSar,
+  isDisclosing,
+  discloseCase
+}) => {
+  const isEscalated = caseInfo !== null && (caseInfo.status === 'Escalated' || caseInfo.status === 'Reported');
+
   return (
     <div className="modal-overlay">
       <div className="transaction-detail-modal">
@@ -710,12 +1003,18 @@ const TransactionDetailModal: React.FC<{
             </div>
             <div className="info-row">
               <span>Amount:</span>
-              <strong>{transaction.amount}</strong>
+              <strong>{privateValues ? `🔓 ${privateValues.amount}` : "🔒 Encrypted"}</strong>
             </div>
             <div className="info-row">
               <span>Status:</span>
               <strong className={`status-text ${transaction.status}`}>{transaction.status}</strong>
             </div>
+            {caseInfo && (
+              <div className="info-row">
+                <span>Case:</span>
+                <strong>#{caseInfo.caseId.toString()} ({caseInfo.status})</strong>
+              </div>
+            )}
           </div>
           
           <div className="risk-section">
@@ -726,16 +1025,17 @@ const TransactionDetailModal: React.FC<{
               <button 
                 className={`decrypt-btn ${transaction.isVerified ? 'verified' : ''}`}
                 onClick={decryptData}
-                disabled={isDecrypting}
+                disabled={isDecrypting || transaction.isVerified}
               >
                 {isDecrypting ? "Decrypting..." : 
-                 transaction.isVerified ? "✅ Risk Score Verified" : 
-                 "🔓 Verify Risk Score"}
+                 transaction.isVerified ? "✅ Risk Score Disclosed" : 
+                 privateValues ? "🔄 Decrypt Again" :
+                 "🔓 Decrypt Privately"}
               </button>
               <p className="decryption-note">
                 {transaction.isVerified ? 
-                  "Risk score has been verified on-chain using FHE technology" :
-                  "Click to decrypt and verify the risk score on-chain"
+                  "Risk score was publicly disclosed with its case and verified on-chain" :
+                  "Decrypted with your wallet signature; values are only shown to you"
                 }
               </p>
             </div>
@@ -743,6 +1043,16 @@ const TransactionDetailModal: React.FC<{
         </div>
         
         <div className="modal-footer">
+          {isEscalated && !caseInfo.isDisclosed && (
+            <button onClick={discloseCase} disabled={isDisclosing} className="sar-btn">
+              {isDisclosing ? "Disclosing..." : "📢 Disclose Risk Score"}
+            </button>
+          )}
+          {isEscalated && (
+            <button onClick={generateSar} disabled={isGeneratingSar} className="sar-btn">
+              {isGeneratingSar ? "Generating SAR..." : "📄 Generate SAR"}
+            </button>
+          )}
           <button onClick={onClose} className="close-btn">Close</button>
         </div>
       </div>
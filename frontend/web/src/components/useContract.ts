@@ -1,9 +1,13 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "../abi/UniversalFHEAdapter.json";
+import abiJson from "../abi/AmlScanFHE.json";
+import caseManagerAbiJson from "../abi/AmlCaseManager.json";
+import riskTiersAbiJson from "../abi/AmlRiskTiers.json";
 import configJson from "../config.json";
 
 export const ABI = (abiJson as any).abi || abiJson;
+export const CASE_MANAGER_ABI = (caseManagerAbiJson as any).abi || caseManagerAbiJson;
+export const RISK_TIERS_ABI = (riskTiersAbiJson as any).abi || riskTiersAbiJson;
 export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
@@ -90,6 +94,41 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getCaseManagerReadOnly() {
+  try {
+    const provider = await getTestnetProvider();
+    const code = await retry(() => provider.getCode(config.caseManagerAddress));
+    if (code === "0x") {
+      return null;
+    }
+
+    return new ethers.Contract(config.caseManagerAddress, CASE_MANAGER_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only case manager:", error);
+    return null;
+  }
+}
+
+export async function getCaseManagerWithSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return new ethers.Contract(config.caseManagerAddress, CASE_MANAGER_ABI, signer);
+}
+
+export async function getRiskTiersWithSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return new ethers.Contract(config.riskTiersAddress, RISK_TIERS_ABI, signer);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
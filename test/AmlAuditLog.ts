@@ -0,0 +1,209 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AmlAuditLog, AmlCaseManager, AmlScanFHE } from "../types";
+import { recordEncryptedTransaction } from "./helpers";
+
+type Entry = { source: string; actor: string; action: string; targetId: string; timestamp: bigint; entryHash: string };
+
+describe("AmlAuditLog", function () {
+  let deployer: HardhatEthersSigner;
+  let officer: HardhatEthersSigner;
+  let reporter: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let scan: AmlScanFHE;
+  let caseManager: AmlCaseManager;
+  let auditLog: AmlAuditLog;
+  let scanAddress: string;
+
+  before(async function () {
+    [deployer, officer, reporter, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the FHEVM mock environment");
+      this.skip();
+    }
+
+    scan = await ethers.deployContract("AmlScanFHE");
+    scanAddress = await scan.getAddress();
+    caseManager = await ethers.deployContract("AmlCaseManager", [scanAddress]);
+    auditLog = await ethers.deployContract("AmlAuditLog", [scanAddress]);
+
+    await (await scan.grantRole(await scan.COMPLIANCE_OFFICER_ROLE(), officer.address)).wait();
+    await (await scan.grantRole(await scan.REPORTER_ROLE(), reporter.address)).wait();
+    await (await scan.setAuditLog(await auditLog.getAddress())).wait();
+  });
+
+  function hashEntry(prevHash: string, entry: Entry) {
+    return ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ["bytes32", "address", "address", "bytes4", "bytes32", "uint64"],
+        [prevHash, entry.source, entry.actor, entry.action, entry.targetId, entry.timestamp],
+      ),
+    );
+  }
+
+  function recordTransaction(label: string) {
+    return recordEncryptedTransaction(scan, reporter, label, { sender: alice });
+  }
+
+  it("rejects a zero scan contract", async function () {
+    const factory = await ethers.getContractFactory("AmlAuditLog");
+    await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWithCustomError(factory, "InvalidScanContract");
+  });
+
+  it("chains an entry per role-gated scan action", async function () {
+    const transactionId = await recordTransaction("tx-1");
+    const ruleId = ethers.id("rule-1");
+    const input = await fhevm.createEncryptedInput(scanAddress, officer.address).add32(5).encrypt();
+    await (
+      await scan.connect(officer).getFunction("addRiskRule(bytes32,bytes32,bytes)")(ruleId, input.handles[0], input.inputProof)
+    ).wait();
+    await (await scan.connect(officer).getFunction("scanTransactionEncrypted")(transactionId, ruleId)).wait();
+
+    const [entries, total] = await auditLog.getEntries(0, 10);
+    expect(total).to.eq(3n);
+    expect(entries.map((entry: Entry) => entry.action)).to.deep.eq([
+      scan.interface.getFunction("recordTransaction")!.selector,
+      scan.interface.getFunction("addRiskRule(bytes32,bytes32,bytes)")!.selector,
+      scan.interface.getFunction("scanTransactionEncrypted")!.selector,
+    ]);
+    expect(entries[0].actor).to.eq(reporter.address);
+    expect(entries[0].targetId).to.eq(transactionId);
+    expect(entries[2].source).to.eq(scanAddress);
+
+    let prevHash = ethers.ZeroHash;
+    for (const entry of entries) {
+      expect(entry.entryHash).to.eq(hashEntry(prevHash, entry));
+      prevHash = entry.entryHash;
+    }
+    expect(await auditLog.headHash()).to.eq(prevHash);
+  });
+
+  it("appends one entry per id for batch calls and targets configuration versions", async function () {
+    const ids = [ethers.id("batch-1"), ethers.id("batch-2")];
+    const input = await fhevm.createEncryptedInput(scanAddress, reporter.address).add64(1).add32(1).add64(2).add32(2).encrypt();
+    await (
+      await scan
+        .connect(reporter)
+        .recordTransactions(
+          ids,
+          [alice.address, alice.address],
+          [officer.address, officer.address],
+          [input.handles[0], input.handles[2]],
+          [input.handles[1], input.handles[3]],
+          input.inputProof,
+        )
+    ).wait();
+    const expiresAt = (await ethers.provider.getBlock("latest"))!.timestamp + 3600;
+    await (await scan.connect(officer).delegateAccess(ids, alice.address, expiresAt)).wait();
+    await (await scan.setVelocityWindows([3600])).wait();
+
+    const [entries] = await auditLog.getEntries(0, 10);
+    const recordSelector = scan.interface.getFunction("recordTransactions")!.selector;
+    const delegateSelector = scan.interface.getFunction("delegateAccess")!.selector;
+    expect(entries.map((entry: Entry) => [entry.action, entry.targetId])).to.deep.eq([
+      [recordSelector, ids[0]],
+      [recordSelector, ids[1]],
+      [delegateSelector, ids[0]],
+      [delegateSelector, ids[1]],
+      [scan.interface.getFunction("setVelocityWindows")!.selector, ethers.toBeHex(1, 32)],
+    ]);
+  });
+
+  it("records the disclosing officer as the actor of a risk score disclosure", async function () {
+    const transactionId = await recordTransaction("tx-1");
+    await (await scan.setCaseManager(await caseManager.getAddress())).wait();
+    await (await auditLog.setWriter(await caseManager.getAddress(), true)).wait();
+
+    const officerCases = caseManager.connect(officer);
+    await (await officerCases.openCase(transactionId)).wait();
+    const caseId = await caseManager.getCaseIdByTransaction(transactionId);
+    await (await officerCases.startReview(caseId, ethers.ZeroHash)).wait();
+    await (await officerCases.escalateCase(caseId, ethers.ZeroHash)).wait();
+    await (await officerCases.discloseCase(caseId)).wait();
+
+    const [entries, total] = await auditLog.getEntries(0, 10);
+    const [caseEntry, scanEntry] = entries.slice(Number(total) - 2);
+    expect(caseEntry.action).to.eq(caseManager.interface.getFunction("discloseCase")!.selector);
+    expect(caseEntry.targetId).to.eq(ethers.toBeHex(caseId, 32));
+    expect(scanEntry.source).to.eq(scanAddress);
+    expect(scanEntry.actor).to.eq(officer.address);
+    expect(scanEntry.action).to.eq(scan.interface.getFunction("discloseRiskScore")!.selector);
+    expect(scanEntry.targetId).to.eq(transactionId);
+  });
+
+  it("records the account and role of role changes", async function () {
+    const auditorRole = await scan.AUDITOR_ROLE();
+    await (await scan.grantRole(auditorRole, alice.address)).wait();
+    await (await scan.revokeRole(auditorRole, alice.address)).wait();
+
+    const target = ethers.concat([ethers.dataSlice(auditorRole, 0, 12), alice.address]);
+    const [entries] = await auditLog.getEntries(0, 10);
+    expect(entries.map((entry: Entry) => [entry.actor, entry.action, entry.targetId])).to.deep.eq([
+      [deployer.address, scan.interface.getFunction("grantRole")!.selector, target],
+      [deployer.address, scan.interface.getFunction("revokeRole")!.selector, target],
+    ]);
+  });
+
+  it("does not record failed actions", async function () {
+    await expect(scan.connect(alice).getFunction("scanAll")(ethers.id("tx-1"), 0, 100)).to.be.revertedWithCustomError(
+      scan,
+      "MissingRole",
+    );
+    expect(await auditLog.getEntryCount()).to.eq(0n);
+  });
+
+  it("paginates entries", async function () {
+    for (let i = 0; i < 3; i++) {
+      await recordTransaction(`tx-${i}`);
+    }
+
+    const [page, total] = await auditLog.getEntries(1, 5);
+    expect(total).to.eq(3n);
+    expect(page.length).to.eq(2);
+    expect(page[1].targetId).to.eq(ethers.id("tx-2"));
+    const [empty] = await auditLog.getEntries(3, 5);
+    expect(empty.length).to.eq(0);
+  });
+
+  describe("writers", function () {
+    it("only accepts the scan contract and registered writers", async function () {
+      await expect(auditLog.append(deployer.address, "0x12345678", ethers.ZeroHash))
+        .to.be.revertedWithCustomError(auditLog, "UnauthorizedWriter")
+        .withArgs(deployer.address);
+      await expect(auditLog.connect(officer).getFunction("setWriter")(officer.address, true))
+        .to.be.revertedWithCustomError(auditLog, "MissingRole")
+        .withArgs(await auditLog.ADMIN_ROLE(), officer.address);
+    });
+
+    it("records case actions once the case manager is a writer", async function () {
+      const openCase = caseManager.connect(officer).getFunction("openCase");
+      await expect(openCase(ethers.id("tx-1")))
+        .to.be.revertedWithCustomError(auditLog, "UnauthorizedWriter")
+        .withArgs(await caseManager.getAddress());
+
+      await expect(auditLog.setWriter(await caseManager.getAddress(), true))
+        .to.emit(auditLog, "WriterUpdated")
+        .withArgs(await caseManager.getAddress(), true);
+      const [[writerEntry]] = await auditLog.getEntries(0, 1);
+      expect(writerEntry.source).to.eq(await auditLog.getAddress());
+      expect(writerEntry.actor).to.eq(deployer.address);
+      expect(writerEntry.action).to.eq(auditLog.interface.getFunction("setWriter")!.selector);
+      expect(writerEntry.targetId).to.eq(ethers.zeroPadValue(ethers.concat(["0x01", await caseManager.getAddress()]), 32));
+      await expect(openCase(ethers.id("tx-1")))
+        .to.emit(auditLog, "AuditEntryAppended")
+        .withArgs(
+          1,
+          await caseManager.getAddress(),
+          officer.address,
+          caseManager.interface.getFunction("openCase")!.selector,
+          ethers.id("tx-1"),
+          anyValue,
+        );
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AmlCaseManager, AmlScanFHE } from "../types";
+
+const CaseStatus = { None: 0, Open: 1, UnderReview: 2, Escalated: 3, ClosedFalsePositive: 4, Reported: 5 };
+
+describe("AmlCaseManager", function () {
+  let deployer: HardhatEthersSigner;
+  let officer: HardhatEthersSigner;
+  let otherOfficer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let scan: AmlScanFHE;
+  let caseManager: AmlCaseManager;
+
+  const transactionId = ethers.id("tx-1");
+  const noteHash = ethers.id("note");
+
+  before(async function () {
+    [deployer, officer, otherOfficer, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    scan = await ethers.deployContract("AmlScanFHE");
+    caseManager = await ethers.deployContract("AmlCaseManager", [await scan.getAddress()]);
+
+    const officerRole = await scan.COMPLIANCE_OFFICER_ROLE();
+    await (await scan.grantRole(officerRole, officer.address)).wait();
+    await (await scan.grantRole(officerRole, otherOfficer.address)).wait();
+  });
+
+  function asOfficer(signer = officer) {
+    return caseManager.connect(signer);
+  }
+
+  async function openCase() {
+    await (await asOfficer().getFunction("openCase")(transactionId)).wait();
+    return 1n;
+  }
+
+  it("rejects a zero scan contract", async function () {
+    const factory = await ethers.getContractFactory("AmlCaseManager");
+    await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWithCustomError(factory, "InvalidScanContract");
+  });
+
+  describe("openCase", function () {
+    it("opens one case per transaction", async function () {
+      await expect(asOfficer().getFunction("openCase")(transactionId))
+        .to.emit(caseManager, "CaseOpened")
+        .withArgs(1, transactionId);
+      await (await asOfficer().getFunction("openCase")(transactionId)).wait();
+
+      expect(await caseManager.caseCount()).to.eq(1n);
+      expect(await caseManager.getCaseIdByTransaction(transactionId)).to.eq(1n);
+      const [storedTransactionId, status, assignee] = await caseManager.getCase(1);
+      expect(storedTransactionId).to.eq(transactionId);
+      expect(status).to.eq(CaseStatus.Open);
+      expect(assignee).to.eq(ethers.ZeroAddress);
+    });
+
+    it("is restricted to the scan contract and compliance officers", async function () {
+      await expect(caseManager.connect(alice).getFunction("openCase")(transactionId))
+        .to.be.revertedWithCustomError(caseManager, "MissingRole")
+        .withArgs(await caseManager.COMPLIANCE_OFFICER_ROLE(), alice.address);
+      await expect(asOfficer().getFunction("openCase")(ethers.ZeroHash)).to.be.revertedWithCustomError(
+        caseManager,
+        "InvalidTransactionId",
+      );
+    });
+  });
+
+  describe("lifecycle", function () {
+    it("moves a case from open to reported and records its history", async function () {
+      const caseId = await openCase();
+
+      await expect(asOfficer().getFunction("startReview")(caseId, noteHash))
+        .to.emit(caseManager, "CaseStatusChanged")
+        .withArgs(caseId, CaseStatus.Open, CaseStatus.UnderReview, officer.address, noteHash);
+      await (await asOfficer().getFunction("escalateCase")(caseId, ethers.ZeroHash)).wait();
+      await (await asOfficer().getFunction("reportCase")(caseId, ethers.ZeroHash)).wait();
+
+      const history = await caseManager.getCaseHistory(caseId);
+      expect(history.map((entry: { toStatus: bigint }) => Number(entry.toStatus))).to.deep.eq([
+        CaseStatus.Open,
+        CaseStatus.UnderReview,
+        CaseStatus.Escalated,
+        CaseStatus.Reported,
+      ]);
+      expect(await caseManager.getCaseNotes(caseId)).to.deep.eq([noteHash]);
+    });
+
+    it("rejects out-of-order transitions", async function () {
+      const caseId = await openCase();
+
+      await expect(asOfficer().getFunction("escalateCase")(caseId, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(caseManager, "InvalidCaseTransition")
+        .withArgs(caseId, CaseStatus.Open, CaseStatus.Escalated);
+      await expect(asOfficer().getFunction("reportCase")(caseId, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(caseManager, "InvalidCaseTransition")
+        .withArgs(caseId, CaseStatus.Open, CaseStatus.Reported);
+
+      await (await asOfficer().getFunction("closeAsFalsePositive")(caseId, noteHash)).wait();
+      await expect(asOfficer().getFunction("closeAsFalsePositive")(caseId, noteHash))
+        .to.be.revertedWithCustomError(caseManager, "InvalidCaseTransition")
+        .withArgs(caseId, CaseStatus.ClosedFalsePositive, CaseStatus.ClosedFalsePositive);
+      await expect(asOfficer().getFunction("assignCase")(caseId, officer.address))
+        .to.be.revertedWithCustomError(caseManager, "CaseClosed")
+        .withArgs(caseId);
+    });
+
+    it("reverts for unknown cases and non-officers", async function () {
+      await expect(caseManager.getCase(7)).to.be.revertedWithCustomError(caseManager, "CaseNotFound").withArgs(7);
+      await expect(asOfficer().getFunction("startReview")(7, noteHash)).to.be.revertedWithCustomError(
+        caseManager,
+        "CaseNotFound",
+      );
+
+      const caseId = await openCase();
+      await expect(caseManager.connect(alice).getFunction("startReview")(caseId, noteHash)).to.be.revertedWithCustomError(
+        caseManager,
+        "MissingRole",
+      );
+    });
+  });
+
+  describe("assignment", function () {
+    it("only lets the assignee transition an assigned case", async function () {
+      const caseId = await openCase();
+
+      await expect(asOfficer().getFunction("assignCase")(caseId, alice.address))
+        .to.be.revertedWithCustomError(caseManager, "InvalidAssignee")
+        .withArgs(alice.address);
+
+      await expect(asOfficer().getFunction("assignCase")(caseId, otherOfficer.address))
+        .to.emit(caseManager, "CaseAssigned")
+        .withArgs(caseId, otherOfficer.address, officer.address);
+
+      await expect(asOfficer().getFunction("startReview")(caseId, noteHash))
+        .to.be.revertedWithCustomError(caseManager, "CaseAssignedToAnotherOfficer")
+        .withArgs(caseId, otherOfficer.address);
+      await (await asOfficer(otherOfficer).getFunction("startReview")(caseId, noteHash)).wait();
+    });
+
+    it("only lets the assignee hand over an assigned case", async function () {
+      const caseId = await openCase();
+      await (await asOfficer().getFunction("assignCase")(caseId, otherOfficer.address)).wait();
+
+      await expect(asOfficer().getFunction("assignCase")(caseId, officer.address))
+        .to.be.revertedWithCustomError(caseManager, "CaseAssignedToAnotherOfficer")
+        .withArgs(caseId, otherOfficer.address);
+
+      await expect(asOfficer(otherOfficer).getFunction("assignCase")(caseId, officer.address))
+        .to.emit(caseManager, "CaseAssigned")
+        .withArgs(caseId, officer.address, otherOfficer.address);
+    });
+  });
+
+  describe("notes and SAR records", function () {
+    it("stores note hashes", async function () {
+      const caseId = await openCase();
+      await expect(asOfficer().getFunction("addCaseNote")(caseId, ethers.ZeroHash)).to.be.revertedWithCustomError(
+        caseManager,
+        "InvalidNoteHash",
+      );
+      await expect(asOfficer().getFunction("addCaseNote")(caseId, noteHash))
+        .to.emit(caseManager, "CaseNoteAdded")
+        .withArgs(caseId, noteHash, officer.address);
+    });
+
+    it("records SAR hashes for escalated cases only", async function () {
+      const caseId = await openCase();
+      const reportHash = ethers.id("report");
+
+      await expect(asOfficer().getFunction("recordSarGenerated")(caseId, reportHash))
+        .to.be.revertedWithCustomError(caseManager, "CaseNotEscalated")
+        .withArgs(caseId, CaseStatus.Open);
+
+      await (await asOfficer().getFunction("startReview")(caseId, ethers.ZeroHash)).wait();
+      await (await asOfficer().getFunction("escalateCase")(caseId, ethers.ZeroHash)).wait();
+
+      await expect(asOfficer().getFunction("recordSarGenerated")(caseId, ethers.ZeroHash)).to.be.revertedWithCustomError(
+        caseManager,
+        "InvalidReportHash",
+      );
+      await expect(asOfficer().getFunction("recordSarGenerated")(caseId, reportHash))
+        .to.emit(caseManager, "SarGenerated")
+        .withArgs(caseId, reportHash, officer.address);
+    });
+  });
+
+  describe("disclosure", function () {
+    it("opens the risk score of an escalated case to public decryption once", async function () {
+      await (await scan.setCaseManager(await caseManager.getAddress())).wait();
+      await (await scan.grantRole(await scan.REPORTER_ROLE(), deployer.address)).wait();
+      const input = await fhevm.createEncryptedInput(await scan.getAddress(), deployer.address).add64(1).add32(42).encrypt();
+      await (
+        await scan.getFunction("recordTransaction")(
+          transactionId,
+          alice.address,
+          alice.address,
+          input.handles[0],
+          input.handles[1],
+          input.inputProof,
+        )
+      ).wait();
+
+      const caseId = await openCase();
+      await expect(asOfficer().getFunction("discloseCase")(caseId))
+        .to.be.revertedWithCustomError(caseManager, "CaseNotEscalated")
+        .withArgs(caseId, CaseStatus.Open);
+
+      await (await asOfficer().getFunction("startReview")(caseId, ethers.ZeroHash)).wait();
+      await (await asOfficer().getFunction("escalateCase")(caseId, ethers.ZeroHash)).wait();
+      await expect(asOfficer().getFunction("discloseCase")(caseId))
+        .to.emit(caseManager, "CaseDisclosed")
+        .withArgs(caseId, transactionId, officer.address);
+      expect(await caseManager.isDisclosed(caseId)).to.eq(true);
+
+      const { encryptedRiskScore } = await scan.getEncryptedHandles(transactionId);
+      const decrypted = await fhevm.publicDecrypt([encryptedRiskScore]);
+      expect(decrypted.clearValues[encryptedRiskScore as `0x${string}`]).to.eq(42n);
+
+      await expect(asOfficer().getFunction("discloseCase")(caseId))
+        .to.be.revertedWithCustomError(caseManager, "CaseAlreadyDisclosed")
+        .withArgs(caseId);
+    });
+  });
+
+  it("reads roles from the scan contract", async function () {
+    expect(await caseManager.amlScan()).to.eq(await scan.getAddress());
+
+    await (await scan.grantRole(await scan.COMPLIANCE_OFFICER_ROLE(), alice.address)).wait();
+    await expect(caseManager.connect(alice).getFunction("openCase")(transactionId)).to.emit(caseManager, "CaseOpened");
+
+    await (await scan.connect(deployer).getFunction("revokeRole")(await scan.COMPLIANCE_OFFICER_ROLE(), alice.address)).wait();
+    await expect(caseManager.connect(alice).getFunction("addCaseNote")(1, noteHash)).to.be.revertedWithCustomError(
+      caseManager,
+      "MissingRole",
+    );
+  });
+});
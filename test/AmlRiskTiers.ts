@@ -0,0 +1,143 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AmlRiskTiers, AmlScanFHE } from "../types";
+import { recordEncryptedTransaction } from "./helpers";
+
+describe("AmlRiskTiers", function () {
+  let deployer: HardhatEthersSigner;
+  let officer: HardhatEthersSigner;
+  let reporter: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let scan: AmlScanFHE;
+  let tiers: AmlRiskTiers;
+  let scanAddress: string;
+  let tiersAddress: string;
+
+  before(async function () {
+    [deployer, officer, reporter, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the FHEVM mock environment");
+      this.skip();
+    }
+
+    scan = await ethers.deployContract("AmlScanFHE");
+    scanAddress = await scan.getAddress();
+    tiers = await ethers.deployContract("AmlRiskTiers", [scanAddress]);
+    tiersAddress = await tiers.getAddress();
+    await (await scan.setRiskTierContract(tiersAddress)).wait();
+
+    await (await scan.grantRole(await scan.COMPLIANCE_OFFICER_ROLE(), officer.address)).wait();
+    await (await scan.grantRole(await scan.REPORTER_ROLE(), reporter.address)).wait();
+  });
+
+  function recordTransaction(label: string, riskScore: number) {
+    return recordEncryptedTransaction(scan, reporter, label, { riskScore, sender: alice });
+  }
+
+  async function setRiskTiers(boundaries: number[], highTier: number) {
+    const input = fhevm.createEncryptedInput(tiersAddress, deployer.address);
+    boundaries.forEach((boundary) => input.add32(boundary));
+    const encrypted = await input.encrypt();
+    return tiers.getFunction("setRiskTiers")(encrypted.handles, highTier, encrypted.inputProof);
+  }
+
+  async function scanAndReveal(transactionId: string) {
+    const officerTiers = tiers.connect(officer);
+    await (await officerTiers.getFunction("scanRiskTier")(transactionId)).wait();
+    const { tier } = await tiers.getTierResult(transactionId);
+    const decrypted = await fhevm.publicDecrypt([tier]);
+    return officerTiers.getFunction("revealRiskTier")(transactionId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+  }
+
+  it("rejects a zero scan contract", async function () {
+    const factory = await ethers.getContractFactory("AmlRiskTiers");
+    await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWithCustomError(factory, "InvalidScanContract");
+  });
+
+  describe("configuration", function () {
+    it("stores encrypted boundaries readable by granted officers", async function () {
+      await expect(setRiskTiers([31, 71], 2)).to.emit(tiers, "RiskTiersUpdated").withArgs(1, 2, 2);
+
+      await (await tiers.connect(officer).getFunction("grantTierAccess")()).wait();
+      const [boundaries, highTier, version] = await tiers.getRiskTiers();
+      expect(highTier).to.eq(2n);
+      expect(version).to.eq(1n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, boundaries[1], tiersAddress, officer)).to.eq(71n);
+    });
+
+    it("validates the tier layout and the admin role", async function () {
+      await expect(setRiskTiers([], 1)).to.be.revertedWithCustomError(tiers, "InvalidRiskTiers");
+      await expect(setRiskTiers([10, 20, 30, 40, 50], 1)).to.be.revertedWithCustomError(tiers, "InvalidRiskTiers");
+      await expect(setRiskTiers([31, 71], 3)).to.be.revertedWithCustomError(tiers, "InvalidRiskTiers");
+
+      await expect(tiers.connect(officer).getFunction("setRiskTiers")([], 1, "0x"))
+        .to.be.revertedWithCustomError(tiers, "MissingRole")
+        .withArgs(await tiers.ADMIN_ROLE(), officer.address);
+    });
+  });
+
+  describe("scanRiskTier", function () {
+    beforeEach(async function () {
+      await (await setRiskTiers([31, 71], 2)).wait();
+    });
+
+    it("assigns the tier whose band contains the risk score", async function () {
+      const low = await recordTransaction("tx-low", 30);
+      const medium = await recordTransaction("tx-medium", 31);
+      const high = await recordTransaction("tx-high", 95);
+
+      await expect(scanAndReveal(low)).to.emit(tiers, "RiskTierAssigned").withArgs(low, 0, false);
+      await expect(scanAndReveal(medium)).to.emit(tiers, "RiskTierAssigned").withArgs(medium, 1, false);
+      await expect(scanAndReveal(high))
+        .to.emit(tiers, "HighRiskAlert")
+        .withArgs(high, 2);
+
+      const result = await tiers.getTierResult(high);
+      expect(result.isRevealed).to.eq(true);
+      expect(result.revealedTier).to.eq(2n);
+      expect(result.configVersion).to.eq(1n);
+    });
+
+    it("scans and reveals each transaction once", async function () {
+      const txId = await recordTransaction("tx-1", 50);
+      const officerTiers = tiers.connect(officer);
+
+      await expect(officerTiers.getFunction("revealRiskTier")(txId, "0x", "0x"))
+        .to.be.revertedWithCustomError(tiers, "NotScanned")
+        .withArgs(txId);
+      await (await scanAndReveal(txId)).wait();
+      await expect(officerTiers.getFunction("scanRiskTier")(txId))
+        .to.be.revertedWithCustomError(tiers, "AlreadyScanned")
+        .withArgs(txId);
+      await expect(officerTiers.getFunction("revealRiskTier")(txId, "0x", "0x"))
+        .to.be.revertedWithCustomError(tiers, "AlreadyRevealed")
+        .withArgs(txId);
+    });
+
+    it("requires a compliance officer and a recorded transaction", async function () {
+      const txId = await recordTransaction("tx-1", 50);
+      await expect(tiers.connect(alice).getFunction("scanRiskTier")(txId)).to.be.revertedWithCustomError(
+        tiers,
+        "MissingRole",
+      );
+
+      const missing = ethers.id("missing");
+      await expect(tiers.connect(officer).getFunction("scanRiskTier")(missing))
+        .to.be.revertedWithCustomError(scan, "TransactionNotFound")
+        .withArgs(missing);
+    });
+  });
+
+  it("requires configured tiers", async function () {
+    const txId = await recordTransaction("tx-1", 50);
+    await expect(tiers.connect(officer).getFunction("scanRiskTier")(txId)).to.be.revertedWithCustomError(
+      tiers,
+      "RiskTiersNotConfigured",
+    );
+  });
+});
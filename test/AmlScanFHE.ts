@@ -0,0 +1,1186 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AmlCaseManager, AmlScanFHE } from "../types";
+import { recordEncryptedTransaction } from "./helpers";
+
+const NodeKind = { Compare: 0, And: 1, Or: 2, Flag: 3 };
+const RuleField = {
+  RiskScore: 0,
+  Amount: 1,
+  SenderVelocitySum: 2,
+  SenderVelocityCount: 3,
+  ReceiverVelocitySum: 4,
+  ReceiverVelocityCount: 5,
+  SenderWatchlistHit: 6,
+  ReceiverWatchlistHit: 7,
+};
+const CompareOp = { GreaterThan: 0, GreaterOrEqual: 1, LessThan: 2, LessOrEqual: 3 };
+const RuleKind = { Threshold: 0, Composite: 1, Structuring: 2 };
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  officer: HardhatEthersSigner;
+  reporter: HardhatEthersSigner;
+  auditor: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+type FactorHandles = [Uint8Array, Uint8Array, Uint8Array, Uint8Array];
+
+type RuleNodeInput = { kind: number; field: number; op: number; left: number; right: number; window: number };
+
+function compareNode(field: number, op: number, window = 0): RuleNodeInput {
+  return { kind: NodeKind.Compare, field, op, left: 0, right: 0, window };
+}
+
+function joinNode(kind: number, left: number, right: number): RuleNodeInput {
+  return { kind, field: 0, op: 0, left, right, window: 0 };
+}
+
+describe("AmlScanFHE", function () {
+  let signers: Signers;
+  let scan: AmlScanFHE;
+  let caseManager: AmlCaseManager;
+  let scanAddress: string;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      officer: ethSigners[1],
+      reporter: ethSigners[2],
+      auditor: ethSigners[3],
+      alice: ethSigners[4],
+      bob: ethSigners[5],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the FHEVM mock environment");
+      this.skip();
+    }
+
+    scan = await ethers.deployContract("AmlScanFHE");
+    scanAddress = await scan.getAddress();
+    caseManager = await ethers.deployContract("AmlCaseManager", [scanAddress]);
+    await (await scan.setCaseManager(await caseManager.getAddress())).wait();
+
+    await (await scan.grantRole(await scan.COMPLIANCE_OFFICER_ROLE(), signers.officer.address)).wait();
+    await (await scan.grantRole(await scan.REPORTER_ROLE(), signers.reporter.address)).wait();
+    await (await scan.grantRole(await scan.AUDITOR_ROLE(), signers.auditor.address)).wait();
+  });
+
+  function recordTransaction(label: string, amount: number, riskScore: number, sender = signers.alice, receiver = signers.bob) {
+    return recordEncryptedTransaction(scan, signers.reporter, label, { amount, riskScore, sender, receiver });
+  }
+
+  async function addThresholdRule(label: string, threshold: number) {
+    const id = ethers.id(label);
+    const input = await fhevm.createEncryptedInput(scanAddress, signers.officer.address).add32(threshold).encrypt();
+    await (
+      await scan
+        .connect(signers.officer)
+        .getFunction("addRiskRule(bytes32,bytes32,bytes)")(id, input.handles[0], input.inputProof)
+    ).wait();
+    return id;
+  }
+
+  async function updateThresholdRule(id: string, threshold: number) {
+    const input = await fhevm.createEncryptedInput(scanAddress, signers.officer.address).add32(threshold).encrypt();
+    return scan.connect(signers.officer).getFunction("updateRiskRule")(id, input.handles[0], input.inputProof);
+  }
+
+  async function addCompositeRule(label: string, nodes: RuleNodeInput[], thresholds: number[]) {
+    const id = ethers.id(label);
+    const input = fhevm.createEncryptedInput(scanAddress, signers.officer.address);
+    thresholds.forEach((threshold) => input.add64(threshold));
+    const encrypted = await input.encrypt();
+    await (
+      await scan
+        .connect(signers.officer)
+        .getFunction("addRiskRule(bytes32,(uint8,uint8,uint8,uint8,uint8,uint8)[],bytes32[],bytes)")(
+          id,
+          nodes,
+          encrypted.handles,
+          encrypted.inputProof,
+        )
+    ).wait();
+    return id;
+  }
+
+  async function scanAndReveal(transactionId: string, ruleId: string) {
+    await (await scan.connect(signers.officer).getFunction("scanTransactionEncrypted")(transactionId, ruleId)).wait();
+    return revealScan(transactionId, ruleId);
+  }
+
+  async function discloseRiskScore(transactionId: string) {
+    const officerCases = caseManager.connect(signers.officer);
+    await (await officerCases.getFunction("openCase")(transactionId)).wait();
+    const caseId = await caseManager.getCaseIdByTransaction(transactionId);
+    await (await officerCases.getFunction("startReview")(caseId, ethers.ZeroHash)).wait();
+    await (await officerCases.getFunction("escalateCase")(caseId, ethers.ZeroHash)).wait();
+    return officerCases.getFunction("discloseCase")(caseId);
+  }
+
+  async function revealScan(transactionId: string, ruleId: string) {
+    const { encryptedFlag } = await scan.getScanResult(transactionId, ruleId);
+    const decrypted = await fhevm.publicDecrypt([encryptedFlag]);
+    await (
+      await scan
+        .connect(signers.officer)
+        .getFunction("revealScanResult")(transactionId, ruleId, decrypted.abiEncodedClearValues, decrypted.decryptionProof)
+    ).wait();
+    return (await scan.getScanResult(transactionId, ruleId)).isHit as boolean;
+  }
+
+  describe("roles", function () {
+    it("grants the admin role to the deployer", async function () {
+      expect(await scan.hasRole(await scan.ADMIN_ROLE(), signers.deployer.address)).to.eq(true);
+    });
+
+    it("only lets admins grant roles", async function () {
+      const adminRole = await scan.ADMIN_ROLE();
+      await expect(scan.connect(signers.alice).getFunction("grantRole")(adminRole, signers.alice.address))
+        .to.be.revertedWithCustomError(scan, "MissingRole")
+        .withArgs(adminRole, signers.alice.address);
+    });
+
+    it("rejects the zero address", async function () {
+      await expect(scan.grantRole(await scan.AUDITOR_ROLE(), ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        scan,
+        "InvalidAccount",
+      );
+    });
+
+    it("revokes roles but not the caller's own admin role", async function () {
+      const reporterRole = await scan.REPORTER_ROLE();
+      await expect(scan.revokeRole(reporterRole, signers.reporter.address))
+        .to.emit(scan, "RoleRevoked")
+        .withArgs(reporterRole, signers.reporter.address, signers.deployer.address);
+      expect(await scan.hasRole(reporterRole, signers.reporter.address)).to.eq(false);
+
+      await expect(scan.revokeRole(await scan.ADMIN_ROLE(), signers.deployer.address)).to.be.revertedWithCustomError(
+        scan,
+        "CannotRevokeOwnAdminRole",
+      );
+    });
+  });
+
+  describe("recordTransaction", function () {
+    it("stores the encrypted amount and risk score for the reporter", async function () {
+      const id = await recordTransaction("tx-1", 25_000, 42);
+
+      const [sender, receiver, timestamp, , isFlagged, isVerified] = await scan.getTransaction(id);
+      expect(sender).to.eq(signers.alice.address);
+      expect(receiver).to.eq(signers.bob.address);
+      expect(timestamp).to.be.gt(0);
+      expect(isFlagged).to.eq(false);
+      expect(isVerified).to.eq(false);
+
+      const handles = await scan.getEncryptedHandles(id);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, handles.encryptedAmount, scanAddress, signers.reporter),
+      ).to.eq(25_000n);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, handles.encryptedRiskScore, scanAddress, signers.reporter),
+      ).to.eq(42n);
+    });
+
+    it("rejects duplicate and zero ids", async function () {
+      const id = await recordTransaction("tx-1", 1, 1);
+      await expect(recordTransaction("tx-1", 1, 1))
+        .to.be.revertedWithCustomError(scan, "TransactionAlreadyExists")
+        .withArgs(id);
+
+      const input = await fhevm.createEncryptedInput(scanAddress, signers.reporter.address).add64(1).add32(1).encrypt();
+      await expect(
+        scan
+          .connect(signers.reporter)
+          .getFunction("recordTransaction")(
+            ethers.ZeroHash,
+            signers.alice.address,
+            signers.bob.address,
+            input.handles[0],
+            input.handles[1],
+            input.inputProof,
+          ),
+      ).to.be.revertedWithCustomError(scan, "InvalidTransactionId");
+    });
+
+    it("requires the reporter role", async function () {
+      const input = await fhevm.createEncryptedInput(scanAddress, signers.alice.address).add64(1).add32(1).encrypt();
+      await expect(
+        scan
+          .connect(signers.alice)
+          .getFunction("recordTransaction")(
+            ethers.id("tx-1"),
+            signers.alice.address,
+            signers.bob.address,
+            input.handles[0],
+            input.handles[1],
+            input.inputProof,
+          ),
+      ).to.be.revertedWithCustomError(scan, "MissingRole");
+    });
+
+    it("reverts lookups of unknown transactions", async function () {
+      const id = ethers.id("missing");
+      await expect(scan.getTransaction(id)).to.be.revertedWithCustomError(scan, "TransactionNotFound").withArgs(id);
+      await expect(scan.getEncryptedHandles(id)).to.be.revertedWithCustomError(scan, "TransactionNotFound");
+      await expect(scan.getWatchlistHits(id)).to.be.revertedWithCustomError(scan, "TransactionNotFound");
+    });
+  });
+
+  describe("recordTransactions", function () {
+    it("records a batch sharing one input proof", async function () {
+      const ids = [ethers.id("batch-1"), ethers.id("batch-2")];
+      const input = await fhevm
+        .createEncryptedInput(scanAddress, signers.reporter.address)
+        .add64(100)
+        .add32(10)
+        .add64(200)
+        .add32(20)
+        .encrypt();
+
+      await expect(
+        scan
+          .connect(signers.reporter)
+          .getFunction("recordTransactions")(
+            ids,
+            [signers.alice.address, signers.bob.address],
+            [signers.bob.address, signers.alice.address],
+            [input.handles[0], input.handles[2]],
+            [input.handles[1], input.handles[3]],
+            input.inputProof,
+          ),
+      )
+        .to.emit(scan, "TransactionRecorded")
+        .withArgs(ids[1], signers.bob.address, signers.alice.address);
+
+      expect(await scan.getTransactionCount()).to.eq(2n);
+      const handles = await scan.getEncryptedHandles(ids[1]);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, handles.encryptedAmount, scanAddress, signers.reporter),
+      ).to.eq(200n);
+    });
+
+    it("validates batch size and lengths", async function () {
+      const input = await fhevm.createEncryptedInput(scanAddress, signers.reporter.address).add64(1).add32(1).encrypt();
+      const reporterScan = scan.connect(signers.reporter);
+
+      await expect(
+        reporterScan.getFunction("recordTransactions")([], [], [], [], [], input.inputProof),
+      ).to.be.revertedWithCustomError(scan, "InvalidBatchSize");
+      await expect(
+        reporterScan.getFunction("recordTransactions")(
+          [ethers.id("a")],
+          [signers.alice.address, signers.bob.address],
+          [signers.bob.address],
+          [input.handles[0]],
+          [input.handles[1]],
+          input.inputProof,
+        ),
+      ).to.be.revertedWithCustomError(scan, "BatchLengthMismatch");
+    });
+
+    it("records a full batch under the maximum screening configuration", async function () {
+      async function recordBatch(prefix: string, size: number) {
+        const input = fhevm.createEncryptedInput(scanAddress, signers.reporter.address);
+        for (let i = 0; i < size; i++) input.add64(9_500).add32(10);
+        const encrypted = await input.encrypt();
+        return scan.connect(signers.reporter).recordTransactions(
+          Array.from({ length: size }, (_, i) => ethers.id(`${prefix}-${i}`)),
+          Array(size).fill(signers.alice.address),
+          Array(size).fill(signers.bob.address),
+          encrypted.handles.filter((_, i) => i % 2 === 0),
+          encrypted.handles.filter((_, i) => i % 2 === 1),
+          encrypted.inputProof,
+        );
+      }
+
+      await (await scan.setVelocityWindows([60, 3600, 86400, 604800])).wait();
+      const bands = await fhevm
+        .createEncryptedInput(scanAddress, signers.officer.address)
+        .add64(9_000)
+        .add64(9_999)
+        .add32(3)
+        .encrypt();
+      for (let i = 0; i < Number(await scan.MAX_STRUCTURING_RULES()); i++) {
+        await (
+          await scan
+            .connect(signers.officer)
+            .addStructuringRule(ethers.id(`structuring-${i}`), bands.handles[0], bands.handles[1], bands.handles[2], 86400, bands.inputProof)
+        ).wait();
+      }
+      const withoutWatchlist = Number(await scan.maxTransactionBatch());
+      expect(withoutWatchlist).to.be.greaterThan(1);
+      await (await recordBatch("no-watchlist", withoutWatchlist)).wait();
+
+      for (let i = 0; i < Number(await scan.MAX_WATCHLIST_ENTRIES()); i++) {
+        const key = await scan.watchlistKey(ethers.Wallet.createRandom().address);
+        const input = await fhevm.createEncryptedInput(scanAddress, signers.officer.address).add64(key).encrypt();
+        await (await scan.connect(signers.officer).addWatchlistEntry(input.handles[0], input.inputProof)).wait();
+      }
+      const maxBatch = Number(await scan.maxTransactionBatch());
+      expect(maxBatch).to.be.lessThan(withoutWatchlist);
+      await expect(recordBatch("too-large", maxBatch + 1)).to.be.revertedWithCustomError(scan, "InvalidBatchSize");
+      await (await recordBatch("full", maxBatch)).wait();
+      expect(await scan.getTransactionCount()).to.eq(BigInt(withoutWatchlist + maxBatch));
+    });
+  });
+
+  describe("risk scoring model", function () {
+    async function setRiskWeights(weights: number[]) {
+      const input = fhevm.createEncryptedInput(scanAddress, signers.deployer.address);
+      weights.forEach((weight) => input.add32(weight));
+      const encrypted = await input.encrypt();
+      return scan.getFunction("setRiskWeights")(encrypted.handles as FactorHandles, encrypted.inputProof);
+    }
+
+    async function recordScoredTransaction(label: string, amount: number, factors: number[]) {
+      const id = ethers.id(label);
+      const input = fhevm.createEncryptedInput(scanAddress, signers.reporter.address).add64(amount);
+      factors.forEach((factor) => input.add32(factor));
+      const encrypted = await input.encrypt();
+      await (
+        await scan
+          .connect(signers.reporter)
+          .getFunction("recordScoredTransaction")(
+            id,
+            signers.alice.address,
+            signers.bob.address,
+            encrypted.handles[0],
+            encrypted.handles.slice(1) as FactorHandles,
+            encrypted.inputProof,
+          )
+      ).wait();
+      const { encryptedRiskScore } = await scan.getEncryptedHandles(id);
+      return fhevm.userDecryptEuint(FhevmType.euint32, encryptedRiskScore, scanAddress, signers.reporter);
+    }
+
+    it("computes the weighted score from encrypted factors", async function () {
+      await expect(setRiskWeights([40, 20, 30, 10]))
+        .to.emit(scan, "RiskModelUpdated")
+        .withArgs(1, signers.deployer.address);
+
+      // (40*70 + 20*50 + 30*90 + 10*20) / 100 = 67
+      expect(await recordScoredTransaction("tx-1", 5_000, [70, 50, 90, 20])).to.eq(67n);
+      expect(await recordScoredTransaction("tx-2", 5_000, [0, 0, 0, 0])).to.eq(0n);
+
+      const weights = await scan.getRiskWeights();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, weights[2], scanAddress, signers.deployer)).to.eq(30n);
+    });
+
+    it("uses updated weights for later transactions and caps the score", async function () {
+      await (await setRiskWeights([25, 25, 25, 25])).wait();
+      expect(await recordScoredTransaction("tx-1", 1, [100, 0, 0, 0])).to.eq(25n);
+
+      await (await setRiskWeights([100, 100, 0, 0])).wait();
+      expect(await scan.riskModelVersion()).to.eq(2n);
+      expect(await recordScoredTransaction("tx-2", 1, [100, 100, 0, 0])).to.eq(100n);
+    });
+
+    it("clamps out-of-range factors and weights instead of letting the sum wrap", async function () {
+      // Unclamped, 64 * 2^26 = 2^32 wraps to 0 and the transaction would score 0
+      await (await setRiskWeights([64, 12, 12, 12])).wait();
+      expect(await recordScoredTransaction("tx-1", 1, [2 ** 26, 0, 0, 0])).to.eq(64n);
+
+      await (await setRiskWeights([2 ** 26, 0, 0, 0])).wait();
+      expect(await recordScoredTransaction("tx-2", 1, [64, 0, 0, 0])).to.eq(64n);
+    });
+
+    it("requires a configured model and the admin role", async function () {
+      await expect(recordScoredTransaction("tx-1", 1, [1, 1, 1, 1])).to.be.revertedWithCustomError(
+        scan,
+        "RiskModelNotConfigured",
+      );
+
+      const input = await fhevm
+        .createEncryptedInput(scanAddress, signers.officer.address)
+        .add32(25)
+        .add32(25)
+        .add32(25)
+        .add32(25)
+        .encrypt();
+      await expect(scan.connect(signers.officer).getFunction("setRiskWeights")(input.handles as FactorHandles, input.inputProof))
+        .to.be.revertedWithCustomError(scan, "MissingRole")
+        .withArgs(await scan.ADMIN_ROLE(), signers.officer.address);
+    });
+  });
+
+  describe("risk rules", function () {
+    it("registers threshold rules once", async function () {
+      const id = await addThresholdRule("rule-1", 50);
+      const [ruleIdValue, , isVerified, kind, nodeCount] = await scan.getRiskRule(id);
+      expect(ruleIdValue).to.eq(id);
+      expect(isVerified).to.eq(false);
+      expect(kind).to.eq(RuleKind.Threshold);
+      expect(nodeCount).to.eq(0n);
+
+      await expect(addThresholdRule("rule-1", 10)).to.be.revertedWithCustomError(scan, "RuleAlreadyExists").withArgs(id);
+    });
+
+    it("rejects the zero id and non-officers", async function () {
+      const input = await fhevm.createEncryptedInput(scanAddress, signers.officer.address).add32(1).encrypt();
+      await expect(
+        scan
+          .connect(signers.officer)
+          .getFunction("addRiskRule(bytes32,bytes32,bytes)")(ethers.ZeroHash, input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(scan, "InvalidRuleId");
+
+      const aliceInput = await fhevm.createEncryptedInput(scanAddress, signers.alice.address).add32(1).encrypt();
+      await expect(
+        scan
+          .connect(signers.alice)
+          .getFunction("addRiskRule(bytes32,bytes32,bytes)")(ethers.id("r"), aliceInput.handles[0], aliceInput.inputProof),
+      ).to.be.revertedWithCustomError(scan, "MissingRole");
+    });
+
+    it("reverts lookups of unknown rules", async function () {
+      const id = ethers.id("missing");
+      await expect(scan.getRiskRule(id)).to.be.revertedWithCustomError(scan, "RuleNotFound").withArgs(id);
+      await expect(scan.getRuleNodes(id)).to.be.revertedWithCustomError(scan, "RuleNotFound");
+      await expect(scan.getStructuringRule(id)).to.be.revertedWithCustomError(scan, "RuleNotFound");
+    });
+
+    it("validates composite rule structure", async function () {
+      await expect(addCompositeRule("empty", [], [])).to.be.revertedWithCustomError(scan, "InvalidRuleSize");
+      await expect(
+        addCompositeRule("forward-ref", [compareNode(RuleField.Amount, CompareOp.GreaterThan), joinNode(NodeKind.And, 0, 1)], [1]),
+      )
+        .to.be.revertedWithCustomError(scan, "InvalidRuleNode")
+        .withArgs(1);
+      await expect(
+        addCompositeRule("flag-field", [{ ...compareNode(RuleField.Amount, 0), kind: NodeKind.Flag }], []),
+      ).to.be.revertedWithCustomError(scan, "InvalidRuleNode");
+      await expect(
+        addCompositeRule("missing-threshold", [compareNode(RuleField.Amount, CompareOp.GreaterThan)], []),
+      ).to.be.revertedWithCustomError(scan, "ThresholdCountMismatch");
+      await expect(
+        addCompositeRule("unused-threshold", [compareNode(RuleField.Amount, CompareOp.GreaterThan)], [1, 2]),
+      ).to.be.revertedWithCustomError(scan, "ThresholdCountMismatch");
+      await expect(
+        addCompositeRule("no-window", [compareNode(RuleField.SenderVelocitySum, CompareOp.GreaterThan)], [1]),
+      ).to.be.revertedWithCustomError(scan, "InvalidVelocityWindow");
+    });
+  });
+
+  describe("rule versions", function () {
+    it("keeps every threshold version for audit", async function () {
+      const id = await addThresholdRule("rule-1", 50);
+      await expect(updateThresholdRule(id, 65)).to.emit(scan, "RiskRuleUpdated").withArgs(id, 2);
+
+      const versions = await scan.getRuleVersions(id);
+      expect(versions.map((v: { version: bigint }) => v.version)).to.deep.eq([1n, 2n]);
+      expect(versions[1].createdBy).to.eq(signers.officer.address);
+      expect((await scan.getRiskRule(id)).version).to.eq(2n);
+
+      await (await scan.connect(signers.auditor).getFunction("grantDecryptionAccess")(id, false)).wait();
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, versions[0].encryptedThreshold, scanAddress, signers.auditor),
+      ).to.eq(50n);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, versions[1].encryptedThreshold, scanAddress, signers.auditor),
+      ).to.eq(65n);
+    });
+
+    it("records the version each scan used", async function () {
+      const ruleId = await addThresholdRule("rule-1", 50);
+      const before = await recordTransaction("tx-1", 1, 60);
+      expect(await scanAndReveal(before, ruleId)).to.eq(true);
+
+      await (await updateThresholdRule(ruleId, 70)).wait();
+      const after = await recordTransaction("tx-2", 1, 60);
+      expect(await scanAndReveal(after, ruleId)).to.eq(false);
+
+      expect((await scan.getScanResult(before, ruleId)).ruleVersion).to.eq(1n);
+      expect((await scan.getScanResult(after, ruleId)).ruleVersion).to.eq(2n);
+    });
+
+    it("rescans pairs whose result was computed under an older version", async function () {
+      const ruleId = await addThresholdRule("rule-1", 50);
+      const txId = await recordTransaction("tx-1", 1, 60);
+      expect(await scanAndReveal(txId, ruleId)).to.eq(true);
+
+      await (await updateThresholdRule(ruleId, 70)).wait();
+      expect(await scanAndReveal(txId, ruleId)).to.eq(false);
+      expect((await scan.getScanResult(txId, ruleId)).ruleVersion).to.eq(2n);
+      await expect(scan.connect(signers.officer).scanTransactionEncrypted(txId, ruleId))
+        .to.be.revertedWithCustomError(scan, "AlreadyScanned")
+        .withArgs(txId, ruleId);
+    });
+
+    it("resets verification for the new version", async function () {
+      const id = await addThresholdRule("rule-1", 50);
+      await (await scan.connect(signers.auditor).getFunction("requestDecryption")(id)).wait();
+      const decrypted = await fhevm.publicDecrypt([(await scan.riskRules(id)).encryptedThreshold]);
+      await (
+        await scan
+          .connect(signers.auditor)
+          .getFunction("verifyDecryption")(id, decrypted.abiEncodedClearValues, decrypted.decryptionProof, false)
+      ).wait();
+
+      await (await updateThresholdRule(id, 65)).wait();
+      const [, , isVerified] = await scan.getRiskRule(id);
+      expect(isVerified).to.eq(false);
+      const versions = await scan.getRuleVersions(id);
+      expect(versions[0].isVerified).to.eq(true);
+      expect(versions[0].decryptedThreshold).to.eq(50n);
+    });
+
+    it("only updates existing threshold rules", async function () {
+      await expect(updateThresholdRule(ethers.id("missing"), 1)).to.be.revertedWithCustomError(scan, "RuleNotFound");
+
+      const id = await addCompositeRule("composite", [compareNode(RuleField.Amount, CompareOp.GreaterThan)], [1]);
+      await expect(updateThresholdRule(id, 1))
+        .to.be.revertedWithCustomError(scan, "UnexpectedRuleKind")
+        .withArgs(id, RuleKind.Composite);
+    });
+  });
+
+  describe("rule schedule", function () {
+    it("skips disabled rules and emits status events", async function () {
+      const ruleId = await addThresholdRule("rule-1", 50);
+      const txId = await recordTransaction("tx-1", 1, 80);
+      const officerScan = scan.connect(signers.officer);
+      expect(await scan.isRuleActive(ruleId)).to.eq(true);
+
+      await expect(officerScan.getFunction("setRuleEnabled")(ruleId, false))
+        .to.emit(scan, "RiskRuleDeactivated")
+        .withArgs(ruleId, signers.officer.address);
+      await expect(officerScan.getFunction("setRuleEnabled")(ruleId, false)).to.not.emit(scan, "RiskRuleDeactivated");
+
+      await expect(officerScan.getFunction("scanTransactionEncrypted")(txId, ruleId))
+        .to.emit(scan, "ScanSkipped")
+        .withArgs(txId, ruleId);
+      expect((await scan.getScanResult(txId, ruleId)).isScanned).to.eq(false);
+
+      await expect(officerScan.getFunction("setRuleEnabled")(ruleId, true))
+        .to.emit(scan, "RiskRuleActivated")
+        .withArgs(ruleId, signers.officer.address);
+      expect(await scanAndReveal(txId, ruleId)).to.eq(true);
+    });
+
+    it("only scans within the effective-date window", async function () {
+      const ruleId = await addThresholdRule("rule-1", 50);
+      const now = await time.latest();
+      await expect(scan.connect(signers.officer).getFunction("setRuleSchedule")(ruleId, now + 3600, now + 7200))
+        .to.emit(scan, "RiskRuleScheduled")
+        .withArgs(ruleId, now + 3600, now + 7200);
+
+      const staged = await recordTransaction("tx-1", 1, 80);
+      await expect(scan.connect(signers.officer).getFunction("scanTransactionEncrypted")(staged, ruleId)).to.emit(
+        scan,
+        "ScanSkipped",
+      );
+
+      await time.increaseTo(now + 3600);
+      expect(await scanAndReveal(staged, ruleId)).to.eq(true);
+
+      await time.increaseTo(now + 7200);
+      const retired = await recordTransaction("tx-2", 1, 80);
+      await expect(scan.connect(signers.officer).getFunction("scanTransactionEncrypted")(retired, ruleId)).to.emit(
+        scan,
+        "ScanSkipped",
+      );
+      const [rules] = await scan.getRiskRules(0, 10);
+      expect(rules[0].enabled).to.eq(true);
+      expect(rules[0].isActive).to.eq(false);
+    });
+
+    it("validates schedules and roles", async function () {
+      const ruleId = await addThresholdRule("rule-1", 50);
+      await expect(
+        scan.connect(signers.officer).getFunction("setRuleSchedule")(ruleId, 100, 100),
+      ).to.be.revertedWithCustomError(scan, "InvalidRuleSchedule");
+      await expect(
+        scan.connect(signers.officer).getFunction("setRuleSchedule")(ethers.id("missing"), 0, 0),
+      ).to.be.revertedWithCustomError(scan, "RuleNotFound");
+      await expect(scan.connect(signers.alice).getFunction("setRuleEnabled")(ruleId, false)).to.be.revertedWithCustomError(
+        scan,
+        "MissingRole",
+      );
+    });
+  });
+
+  describe("decryption", function () {
+    it("verifies a risk score once its case is disclosed", async function () {
+      const id = await recordTransaction("tx-1", 500, 73);
+      await expect(discloseRiskScore(id)).to.emit(scan, "DecryptionRequested").withArgs(id, true);
+
+      const { encryptedRiskScore } = await scan.getEncryptedHandles(id);
+      const decrypted = await fhevm.publicDecrypt([encryptedRiskScore]);
+      await expect(
+        scan
+          .connect(signers.auditor)
+          .getFunction("verifyDecryption")(id, decrypted.abiEncodedClearValues, decrypted.decryptionProof, true),
+      )
+        .to.emit(scan, "DecryptionVerified")
+        .withArgs(id, 73);
+
+      const [, , , decryptedRiskScore, , isVerified] = await scan.getTransaction(id);
+      expect(decryptedRiskScore).to.eq(73n);
+      expect(isVerified).to.eq(true);
+
+      await expect(
+        scan
+          .connect(signers.auditor)
+          .getFunction("verifyDecryption")(id, decrypted.abiEncodedClearValues, decrypted.decryptionProof, true),
+      )
+        .to.be.revertedWithCustomError(scan, "AlreadyVerified")
+        .withArgs(id);
+    });
+
+    it("only opens threshold rules to public decryption", async function () {
+      const id = await addCompositeRule("composite", [compareNode(RuleField.Amount, CompareOp.GreaterThan)], [1]);
+      await expect(scan.connect(signers.auditor).getFunction("requestDecryption")(id))
+        .to.be.revertedWithCustomError(scan, "UnexpectedRuleKind")
+        .withArgs(id, RuleKind.Composite);
+    });
+
+    it("only discloses risk scores through the case manager", async function () {
+      const id = await recordTransaction("tx-1", 1, 1);
+      await expect(
+        scan.connect(signers.auditor).getFunction("discloseRiskScore")(id, signers.auditor.address),
+      ).to.be.revertedWithCustomError(
+        scan,
+        "CallerNotCaseManager",
+      );
+    });
+
+    it("grants transaction ACL access to the reporter and auditors only", async function () {
+      const id = await recordTransaction("tx-1", 9_000, 12);
+      for (const signer of [signers.alice, signers.officer]) {
+        await expect(scan.connect(signer).getFunction("grantDecryptionAccess")(id, true))
+          .to.be.revertedWithCustomError(scan, "MissingRole")
+          .withArgs(await scan.AUDITOR_ROLE(), signer.address);
+      }
+
+      const { encryptedRiskScore } = await scan.getEncryptedHandles(id);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, encryptedRiskScore, scanAddress, signers.reporter)).to.eq(12n);
+
+      await expect(scan.connect(signers.auditor).getFunction("grantDecryptionAccess")(id, true))
+        .to.emit(scan, "DecryptionAccessGranted")
+        .withArgs(id, signers.auditor.address, true);
+      const { encryptedAmount } = await scan.getEncryptedHandles(id);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, encryptedAmount, scanAddress, signers.auditor)).to.eq(9_000n);
+    });
+  });
+
+  describe("delegation", function () {
+    async function delegateAccess(transactionIds: string[], expiresAt: number) {
+      return scan.connect(signers.officer).getFunction("delegateAccess")(transactionIds, signers.alice.address, expiresAt);
+    }
+
+    function claimDelegatedAccess(transactionId: string) {
+      return scan.connect(signers.alice).getFunction("claimDelegatedAccess")(transactionId);
+    }
+
+    it("grants time-boxed access to specific transactions", async function () {
+      const first = await recordTransaction("tx-1", 500, 41);
+      const second = await recordTransaction("tx-2", 600, 42);
+      const other = await recordTransaction("tx-3", 700, 43);
+      const expiresAt = (await time.latest()) + 3600;
+
+      await expect(delegateAccess([first, second], expiresAt))
+        .to.emit(scan, "DelegationGranted")
+        .withArgs(second, signers.alice.address, expiresAt, signers.officer.address);
+
+      const { encryptedRiskScore } = await scan.getEncryptedHandles(first);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, encryptedRiskScore, scanAddress, signers.alice)).to.be
+        .rejected;
+      await expect(claimDelegatedAccess(first))
+        .to.emit(scan, "DecryptionAccessGranted")
+        .withArgs(first, signers.alice.address, true);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, encryptedRiskScore, scanAddress, signers.alice)).to.eq(41n);
+      await expect(claimDelegatedAccess(other))
+        .to.be.revertedWithCustomError(scan, "DelegationInactive")
+        .withArgs(other, signers.alice.address);
+      expect(await scan.isDelegationActive(second, signers.alice.address)).to.eq(true);
+      expect(await scan.isDelegationActive(other, signers.alice.address)).to.eq(false);
+
+      await time.increaseTo(expiresAt);
+      expect(await scan.isDelegationActive(first, signers.alice.address)).to.eq(false);
+      expect((await scan.getDelegation(first, signers.alice.address)).expiresAt).to.eq(BigInt(expiresAt));
+    });
+
+    it("stops claims after expiry or revocation but keeps access that was already claimed", async function () {
+      const claimed = await recordTransaction("tx-1", 500, 41);
+      const unclaimed = await recordTransaction("tx-2", 600, 42);
+      const revoked = await recordTransaction("tx-3", 700, 43);
+      const expiresAt = (await time.latest()) + 3600;
+      await (await delegateAccess([claimed, unclaimed, revoked], expiresAt)).wait();
+      await (await claimDelegatedAccess(claimed)).wait();
+
+      await (await scan.connect(signers.officer).getFunction("revokeDelegation")(revoked, signers.alice.address)).wait();
+      await expect(claimDelegatedAccess(revoked)).to.be.revertedWithCustomError(scan, "DelegationInactive");
+
+      await time.increaseTo(expiresAt);
+      await expect(claimDelegatedAccess(unclaimed))
+        .to.be.revertedWithCustomError(scan, "DelegationInactive")
+        .withArgs(unclaimed, signers.alice.address);
+      const { encryptedRiskScore: unclaimedScore } = await scan.getEncryptedHandles(unclaimed);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, unclaimedScore, scanAddress, signers.alice)).to.be.rejected;
+
+      // ACL entries are permanent: the claim made before expiry still decrypts through the relayer
+      const { encryptedRiskScore: claimedScore } = await scan.getEncryptedHandles(claimed);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, claimedScore, scanAddress, signers.alice)).to.eq(41n);
+    });
+
+    it("revokes delegations and logs the revocation", async function () {
+      const txId = await recordTransaction("tx-1", 500, 41);
+      await (await delegateAccess([txId], (await time.latest()) + 3600)).wait();
+
+      await expect(scan.connect(signers.officer).getFunction("revokeDelegation")(txId, signers.alice.address))
+        .to.emit(scan, "DelegationRevoked")
+        .withArgs(txId, signers.alice.address, signers.officer.address);
+      expect(await scan.isDelegationActive(txId, signers.alice.address)).to.eq(false);
+      expect((await scan.getDelegation(txId, signers.alice.address)).revoked).to.eq(true);
+
+      await expect(scan.connect(signers.officer).getFunction("revokeDelegation")(txId, signers.bob.address))
+        .to.be.revertedWithCustomError(scan, "DelegationNotFound")
+        .withArgs(txId, signers.bob.address);
+    });
+
+    it("validates the delegate, expiry and batch", async function () {
+      const txId = await recordTransaction("tx-1", 500, 41);
+      const expiresAt = (await time.latest()) + 3600;
+      const officerScan = scan.connect(signers.officer);
+
+      await expect(officerScan.getFunction("delegateAccess")([txId], ethers.ZeroAddress, expiresAt)).to.be.revertedWithCustomError(
+        scan,
+        "InvalidAccount",
+      );
+      await expect(delegateAccess([txId], await time.latest())).to.be.revertedWithCustomError(scan, "InvalidDelegationExpiry");
+      await expect(delegateAccess([], expiresAt)).to.be.revertedWithCustomError(scan, "InvalidBatchSize");
+      await expect(delegateAccess([ethers.id("missing")], expiresAt)).to.be.revertedWithCustomError(
+        scan,
+        "TransactionNotFound",
+      );
+      await expect(
+        scan.connect(signers.auditor).getFunction("delegateAccess")([txId], signers.alice.address, expiresAt),
+      ).to.be.revertedWithCustomError(scan, "MissingRole");
+    });
+  });
+
+  describe("scanTransaction", function () {
+    it("requires both values to be verified", async function () {
+      const txId = await recordTransaction("tx-1", 1, 80);
+      const ruleId = await addThresholdRule("rule-1", 50);
+      await expect(scan.connect(signers.officer).getFunction("scanTransaction")(txId, ruleId))
+        .to.be.revertedWithCustomError(scan, "NotVerified")
+        .withArgs(txId);
+      await expect(scan.connect(signers.officer).getFunction("scanTransaction")(ethers.id("missing"), ruleId))
+        .to.be.revertedWithCustomError(scan, "TransactionNotFound");
+    });
+
+    it("flags transactions above a verified threshold", async function () {
+      const txId = await recordTransaction("tx-1", 1, 80);
+      const ruleId = await addThresholdRule("rule-1", 50);
+
+      await (await discloseRiskScore(txId)).wait();
+      await (await scan.connect(signers.auditor).getFunction("requestDecryption")(ruleId)).wait();
+      for (const [id, isTransaction] of [
+        [txId, true],
+        [ruleId, false],
+      ] as const) {
+        const handle = isTransaction
+          ? (await scan.getEncryptedHandles(id)).encryptedRiskScore
+          : (await scan.riskRules(id)).encryptedThreshold;
+        const decrypted = await fhevm.publicDecrypt([handle]);
+        await (
+          await scan
+            .connect(signers.auditor)
+            .getFunction("verifyDecryption")(id, decrypted.abiEncodedClearValues, decrypted.decryptionProof, isTransaction)
+        ).wait();
+      }
+
+      await expect(scan.connect(signers.officer).getFunction("scanTransaction")(txId, ruleId))
+        .to.emit(scan, "TransactionFlagged")
+        .withArgs(txId, 80);
+      // the disclosed case is reused rather than a second one opened
+      expect(await caseManager.caseCount()).to.eq(1n);
+      const [, , , , isFlagged] = await scan.getTransaction(txId);
+      expect(isFlagged).to.eq(true);
+    });
+  });
+
+  describe("scanTransactionEncrypted", function () {
+    it("flags a hit once its result is revealed", async function () {
+      const txId = await recordTransaction("tx-1", 1, 80);
+      const ruleId = await addThresholdRule("rule-1", 50);
+
+      expect(await scanAndReveal(txId, ruleId)).to.eq(true);
+      const [, , , , isFlagged] = await scan.getTransaction(txId);
+      expect(isFlagged).to.eq(true);
+      expect(await caseManager.getCaseIdByTransaction(txId)).to.eq(1n);
+    });
+
+    it("leaves misses unflagged", async function () {
+      const txId = await recordTransaction("tx-1", 1, 20);
+      const ruleId = await addThresholdRule("rule-1", 50);
+
+      expect(await scanAndReveal(txId, ruleId)).to.eq(false);
+      const [, , , , isFlagged] = await scan.getTransaction(txId);
+      expect(isFlagged).to.eq(false);
+      expect(await caseManager.caseCount()).to.eq(0n);
+    });
+
+    it("scans and reveals each pair only once", async function () {
+      const txId = await recordTransaction("tx-1", 1, 80);
+      const ruleId = await addThresholdRule("rule-1", 50);
+      const officerScan = scan.connect(signers.officer);
+
+      await expect(officerScan.getFunction("revealScanResult")(txId, ruleId, "0x", "0x"))
+        .to.be.revertedWithCustomError(scan, "NotScanned")
+        .withArgs(txId, ruleId);
+
+      await scanAndReveal(txId, ruleId);
+      await expect(officerScan.getFunction("scanTransactionEncrypted")(txId, ruleId))
+        .to.be.revertedWithCustomError(scan, "AlreadyScanned")
+        .withArgs(txId, ruleId);
+      await expect(officerScan.getFunction("revealScanResult")(txId, ruleId, "0x", "0x"))
+        .to.be.revertedWithCustomError(scan, "AlreadyRevealed")
+        .withArgs(txId, ruleId);
+    });
+
+    it("rejects unknown rules", async function () {
+      const txId = await recordTransaction("tx-1", 1, 80);
+      const ruleId = ethers.id("missing");
+      await expect(scan.connect(signers.officer).getFunction("scanTransactionEncrypted")(txId, ruleId))
+        .to.be.revertedWithCustomError(scan, "RuleNotFound")
+        .withArgs(ruleId);
+    });
+
+    it("evaluates composite rules", async function () {
+      const ruleId = await addCompositeRule(
+        "large-and-risky",
+        [
+          compareNode(RuleField.Amount, CompareOp.GreaterOrEqual),
+          compareNode(RuleField.RiskScore, CompareOp.GreaterThan),
+          joinNode(NodeKind.And, 0, 1),
+        ],
+        [10_000, 60],
+      );
+
+      const hit = await recordTransaction("tx-hit", 10_000, 61);
+      const miss = await recordTransaction("tx-miss", 10_000, 60);
+      expect(await scanAndReveal(hit, ruleId)).to.eq(true);
+      expect(await scanAndReveal(miss, ruleId)).to.eq(false);
+    });
+
+    it("evaluates sender velocity within a window", async function () {
+      await (await scan.setVelocityWindows([3600])).wait();
+      const ruleId = await addCompositeRule(
+        "velocity",
+        [compareNode(RuleField.SenderVelocityCount, CompareOp.GreaterOrEqual, 0)],
+        [3],
+      );
+
+      await recordTransaction("tx-1", 100, 1);
+      const second = await recordTransaction("tx-2", 100, 1);
+      expect(await scanAndReveal(second, ruleId)).to.eq(false);
+
+      const third = await recordTransaction("tx-3", 100, 1);
+      expect(await scanAndReveal(third, ruleId)).to.eq(true);
+
+      await time.increase(3600);
+      const fourth = await recordTransaction("tx-4", 100, 1);
+      expect(await scanAndReveal(fourth, ruleId)).to.eq(false);
+    });
+
+    it("rolls the velocity window instead of resetting it", async function () {
+      await (await scan.setVelocityWindows([3600])).wait();
+      const ruleId = await addCompositeRule(
+        "velocity",
+        [compareNode(RuleField.SenderVelocityCount, CompareOp.GreaterOrEqual, 0)],
+        [3],
+      );
+
+      await recordTransaction("tx-1", 100, 1);
+      await time.increase(1800);
+      await recordTransaction("tx-2", 100, 1);
+      await time.increase(1800);
+      // tx-1 has left the window, tx-2 is still in it
+      const third = await recordTransaction("tx-3", 100, 1);
+      expect(await scanAndReveal(third, ruleId)).to.eq(false);
+
+      const fourth = await recordTransaction("tx-4", 100, 1);
+      expect(await scanAndReveal(fourth, ruleId)).to.eq(true);
+    });
+
+    it("counts in-band amounts for structuring rules", async function () {
+      const ruleId = ethers.id("structuring");
+      const input = await fhevm
+        .createEncryptedInput(scanAddress, signers.officer.address)
+        .add64(9_000)
+        .add64(9_999)
+        .add32(2)
+        .encrypt();
+      await expect(
+        scan
+          .connect(signers.officer)
+          .getFunction("addStructuringRule")(ruleId, input.handles[0], input.handles[1], input.handles[2], 0, input.inputProof),
+      ).to.be.revertedWithCustomError(scan, "InvalidStructuringWindow");
+      await (
+        await scan
+          .connect(signers.officer)
+          .getFunction("addStructuringRule")(ruleId, input.handles[0], input.handles[1], input.handles[2], 86400, input.inputProof)
+      ).wait();
+
+      const first = await recordTransaction("tx-1", 9_500, 1);
+      const outOfBand = await recordTransaction("tx-2", 20_000, 1);
+      const second = await recordTransaction("tx-3", 9_900, 1);
+      // counts are taken when recording, so scanning out of order gives the same flags
+      expect(await scanAndReveal(second, ruleId)).to.eq(true);
+      expect(await scanAndReveal(outOfBand, ruleId)).to.eq(false);
+      expect(await scanAndReveal(first, ruleId)).to.eq(false);
+    });
+
+    it("caps structuring rules and flags them from scanAll", async function () {
+      const input = await fhevm
+        .createEncryptedInput(scanAddress, signers.officer.address)
+        .add64(9_000)
+        .add64(9_999)
+        .add32(1)
+        .encrypt();
+      const maxRules = Number(await scan.MAX_STRUCTURING_RULES());
+      for (let i = 0; i <= maxRules; i++) {
+        const add = scan
+          .connect(signers.officer)
+          .addStructuringRule(ethers.id(`structuring-${i}`), input.handles[0], input.handles[1], input.handles[2], 86400, input.inputProof);
+        if (i < maxRules) {
+          await (await add).wait();
+        } else {
+          await expect(add).to.be.revertedWithCustomError(scan, "TooManyStructuringRules");
+        }
+      }
+
+      const txId = await recordTransaction("tx-1", 9_500, 1);
+      await expect(scan.connect(signers.officer).scanAll(txId, 0, 100))
+        .to.emit(scan, "StructuringFlagComputed")
+        .withArgs(txId, ethers.id("structuring-0"), signers.alice.address);
+    });
+  });
+
+  describe("scanAll", function () {
+    async function scanAll(transactionId: string) {
+      await (await scan.connect(signers.officer).getFunction("scanAll")(transactionId, 0, 100)).wait();
+      const aggregate = await scan.getAggregateScan(transactionId);
+      const decrypted = await fhevm.publicDecrypt([aggregate.anyHit]);
+      return {
+        anyHit: decrypted.clearValues[aggregate.anyHit as `0x${string}`],
+        hitCount: await fhevm.userDecryptEuint(FhevmType.euint32, aggregate.hitCount, scanAddress, signers.officer),
+        rulesEvaluated: Number(aggregate.rulesEvaluated),
+        rulesSkipped: Number(aggregate.rulesSkipped),
+      };
+    }
+
+    it("aggregates hits over the active rules and records per-rule results", async function () {
+      const txId = await recordTransaction("tx-1", 1, 80);
+      const low = await addThresholdRule("rule-50", 50);
+      const mid = await addThresholdRule("rule-70", 70);
+      const high = await addThresholdRule("rule-90", 90);
+      const disabled = await addThresholdRule("rule-10", 10);
+      await (await scan.connect(signers.officer).getFunction("setRuleEnabled")(disabled, false)).wait();
+
+      await expect(scan.connect(signers.officer).getFunction("scanAll")(txId, 0, 100))
+        .to.emit(scan, "AggregateScanPerformed")
+        .withArgs(txId, 3, 1);
+
+      const result = await scanAll(txId);
+      expect(result).to.deep.eq({ anyHit: true, hitCount: 2n, rulesEvaluated: 3, rulesSkipped: 1 });
+
+      for (const ruleId of [low, mid, high]) {
+        const { isScanned, ruleVersion } = await scan.getScanResult(txId, ruleId);
+        expect(isScanned).to.eq(true);
+        expect(ruleVersion).to.eq(1n);
+      }
+      expect((await scan.getScanResult(txId, disabled)).isScanned).to.eq(false);
+      expect(await revealScan(txId, mid)).to.eq(true);
+      expect(await revealScan(txId, high)).to.eq(false);
+    });
+
+    it("reuses results of rules that were already scanned", async function () {
+      const txId = await recordTransaction("tx-1", 1, 20);
+      const first = await addThresholdRule("rule-1", 50);
+      expect(await scanAndReveal(txId, first)).to.eq(false);
+      await addThresholdRule("rule-2", 10);
+
+      expect(await scanAll(txId)).to.deep.eq({ anyHit: true, hitCount: 1n, rulesEvaluated: 2, rulesSkipped: 0 });
+      expect((await scan.getScanResult(txId, first)).isRevealed).to.eq(true);
+    });
+
+    it("re-evaluates results computed under an older rule version", async function () {
+      const txId = await recordTransaction("tx-1", 1, 20);
+      const ruleId = await addThresholdRule("rule-1", 50);
+      expect(await scanAndReveal(txId, ruleId)).to.eq(false);
+
+      await (await updateThresholdRule(ruleId, 10)).wait();
+      expect(await scanAll(txId)).to.deep.eq({ anyHit: true, hitCount: 1n, rulesEvaluated: 1, rulesSkipped: 0 });
+      const result = await scan.getScanResult(txId, ruleId);
+      expect(result.ruleVersion).to.eq(2n);
+      expect(result.isRevealed).to.eq(false);
+    });
+
+    it("reports no hit when no rule is active", async function () {
+      const txId = await recordTransaction("tx-1", 1, 80);
+      expect(await scanAll(txId)).to.deep.eq({ anyHit: false, hitCount: 0n, rulesEvaluated: 0, rulesSkipped: 0 });
+    });
+
+    it("scans a rule book too large for one transaction page by page", async function () {
+      await (await scan.setVelocityWindows([3600])).wait();
+      const txId = await recordTransaction("tx-1", 500, 20);
+      // Eight velocity comparisons joined by `And` cost about 2.7M HCU per rule
+      const nodes = [
+        ...Array.from({ length: 8 }, () => compareNode(RuleField.SenderVelocitySum, CompareOp.GreaterThan)),
+        joinNode(NodeKind.And, 0, 1),
+        ...Array.from({ length: 6 }, (_, i) => joinNode(NodeKind.And, 8 + i, 2 + i)),
+      ];
+      for (let i = 0; i < 9; i++) {
+        await addCompositeRule(`velocity-${i}`, nodes, Array(8).fill(i === 8 ? 100 : 1_000));
+      }
+
+      const officerScan = scan.connect(signers.officer).getFunction("scanAll");
+      await expect(officerScan(txId, 0, 100)).to.be.reverted; // HCUTransactionLimitExceeded
+      await expect(officerScan(txId, 5, 4))
+        .to.be.revertedWithCustomError(scan, "ScanAllOutOfOrder")
+        .withArgs(txId, 0);
+
+      await (await officerScan(txId, 0, 5)).wait();
+      expect((await scan.getAggregateScan(txId)).nextRule).to.eq(5n);
+      await expect(officerScan(txId, 4, 4)).to.be.revertedWithCustomError(scan, "ScanAllOutOfOrder");
+      await expect(officerScan(txId, 5, 100)).to.emit(scan, "AggregateScanPerformed").withArgs(txId, 9, 0);
+
+      const aggregate = await scan.getAggregateScan(txId);
+      expect(aggregate.nextRule).to.eq(await scan.getRuleCount());
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, aggregate.hitCount, scanAddress, signers.officer)).to.eq(1n);
+    });
+
+    it("requires a recorded transaction and a compliance officer", async function () {
+      const txId = ethers.id("missing");
+      await expect(scan.connect(signers.officer).getFunction("scanAll")(txId, 0, 100))
+        .to.be.revertedWithCustomError(scan, "TransactionNotFound")
+        .withArgs(txId);
+      await expect(scan.connect(signers.alice).getFunction("scanAll")(txId, 0, 100)).to.be.revertedWithCustomError(
+        scan,
+        "MissingRole",
+      );
+    });
+  });
+
+  describe("watchlist", function () {
+    async function addWatchlistEntry(account: string) {
+      const key = await scan.watchlistKey(account);
+      const input = await fhevm.createEncryptedInput(scanAddress, signers.officer.address).add64(key).encrypt();
+      await (
+        await scan.connect(signers.officer).getFunction("addWatchlistEntry")(input.handles[0], input.inputProof)
+      ).wait();
+    }
+
+    it("screens senders and receivers against encrypted entries", async function () {
+      await addWatchlistEntry(signers.alice.address);
+      const txId = await recordTransaction("tx-1", 1, 1);
+
+      await (await scan.connect(signers.auditor).getFunction("grantDecryptionAccess")(txId, true)).wait();
+      const hits = await scan.getWatchlistHits(txId);
+      expect(await fhevm.userDecryptEbool(hits.senderWatchlistHit, scanAddress, signers.auditor)).to.eq(true);
+      expect(await fhevm.userDecryptEbool(hits.receiverWatchlistHit, scanAddress, signers.auditor)).to.eq(false);
+
+      const ruleId = await addCompositeRule(
+        "watchlisted",
+        [
+          { ...joinNode(NodeKind.Flag, 0, 0), field: RuleField.SenderWatchlistHit },
+          { ...joinNode(NodeKind.Flag, 0, 0), field: RuleField.ReceiverWatchlistHit },
+          joinNode(NodeKind.Or, 0, 1),
+        ],
+        [],
+      );
+      expect(await scanAndReveal(txId, ruleId)).to.eq(true);
+    });
+
+    it("removes entries", async function () {
+      await addWatchlistEntry(signers.alice.address);
+      await addWatchlistEntry(signers.bob.address);
+      expect(await scan.getWatchlistEntryIds()).to.deep.eq([1n, 2n]);
+
+      await expect(scan.connect(signers.officer).getFunction("removeWatchlistEntry")(1))
+        .to.emit(scan, "WatchlistEntryRemoved")
+        .withArgs(1, signers.officer.address);
+      expect(await scan.getWatchlistEntryIds()).to.deep.eq([2n]);
+
+      await expect(scan.connect(signers.officer).getFunction("removeWatchlistEntry")(1))
+        .to.be.revertedWithCustomError(scan, "WatchlistEntryNotFound")
+        .withArgs(1);
+    });
+  });
+
+  describe("velocity windows", function () {
+    it("validates the window configuration", async function () {
+      await expect(scan.setVelocityWindows([1, 2, 3, 4, 5])).to.be.revertedWithCustomError(scan, "TooManyVelocityWindows");
+      await expect(scan.setVelocityWindows([0])).to.be.revertedWithCustomError(scan, "InvalidVelocityWindow");
+      await expect(scan.setVelocityWindows([3])).to.be.revertedWithCustomError(scan, "InvalidVelocityWindow");
+      await expect(scan.getVelocityBuckets(signers.alice.address, 0)).to.be.revertedWithCustomError(
+        scan,
+        "InvalidVelocityWindow",
+      );
+    });
+
+    it("accumulates encrypted sums per account", async function () {
+      await (await scan.setVelocityWindows([3600])).wait();
+      await recordTransaction("tx-1", 100, 1);
+      await recordTransaction("tx-2", 250, 1);
+
+      await (await scan.connect(signers.officer).getFunction("grantVelocityAccess")(signers.alice.address)).wait();
+      const buckets = await scan.getVelocityBuckets(signers.alice.address, 0);
+      let sum = 0n;
+      let count = 0n;
+      for (const bucket of buckets.filter((b) => b.epoch !== 0n)) {
+        sum += await fhevm.userDecryptEuint(FhevmType.euint64, bucket.sum, scanAddress, signers.officer);
+        count += await fhevm.userDecryptEuint(FhevmType.euint32, bucket.count, scanAddress, signers.officer);
+      }
+      expect(sum).to.eq(350n);
+      expect(count).to.eq(2n);
+    });
+
+    it("stops counting buckets once the configuration changes", async function () {
+      await (await scan.setVelocityWindows([3600])).wait();
+      await recordTransaction("tx-1", 100, 1);
+      const liveBuckets = async () =>
+        (await scan.getVelocityBuckets(signers.alice.address, 0)).filter((bucket) => bucket.epoch !== 0n);
+      expect(await liveBuckets()).to.have.length(1);
+
+      await (await scan.setVelocityWindows([3600])).wait();
+      expect(await liveBuckets()).to.have.length(0);
+    });
+  });
+
+  describe("pagination", function () {
+    it("pages through transactions and rules", async function () {
+      const ids = [];
+      for (let i = 0; i < 3; i++) {
+        ids.push(await recordTransaction(`tx-${i}`, 1, i));
+      }
+      const ruleId = await addThresholdRule("rule-1", 1);
+
+      const [firstPage, total] = await scan.getTransactions(0, 2);
+      expect(total).to.eq(3n);
+      expect(firstPage.map((t: { id: string }) => t.id)).to.deep.eq(ids.slice(0, 2));
+
+      const [lastPage] = await scan.getTransactions(2, 2);
+      expect(lastPage.map((t: { id: string }) => t.id)).to.deep.eq(ids.slice(2));
+
+      const [emptyPage] = await scan.getTransactions(10, 2);
+      expect(emptyPage.length).to.eq(0);
+
+      const [rules, ruleTotal] = await scan.getRiskRules(0, 10);
+      expect(ruleTotal).to.eq(1n);
+      expect(rules[0].id).to.eq(ruleId);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { AmlScanFHE } from "../types";
+
+export type TransactionFixture = {
+  amount?: number | bigint;
+  riskScore?: number;
+  sender?: HardhatEthersSigner;
+  receiver?: HardhatEthersSigner;
+};
+
+/** Records `label` through `reporter` with its amount and risk score under one input proof; returns the id. */
+export async function recordEncryptedTransaction(
+  scan: AmlScanFHE,
+  reporter: HardhatEthersSigner,
+  label: string,
+  { amount = 1, riskScore = 10, sender = reporter, receiver = sender }: TransactionFixture = {},
+) {
+  const id = ethers.id(label);
+  const input = await fhevm
+    .createEncryptedInput(await scan.getAddress(), reporter.address)
+    .add64(amount)
+    .add32(riskScore)
+    .encrypt();
+  await (
+    await scan
+      .connect(reporter)
+      .recordTransaction(id, sender.address, receiver.address, input.handles[0], input.handles[1], input.inputProof)
+  ).wait();
+  return id;
+}